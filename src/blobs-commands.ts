@@ -0,0 +1,208 @@
+import path from "node:path";
+
+import { readBlobFile } from "./blobs.js";
+import { deleteBlob } from "./blobs-evict.js";
+import { blobCreatedMs, formatBlobList } from "./blobs-list.js";
+import { type BlobEntry, listAllBlobs, recordBlobAccess, setBlobPinned } from "./blobs-manifest.js";
+import { sliceBlob } from "./blobs-read.js";
+import { type Redactor, redactText } from "./redact.js";
+
+export interface BlobsCommandResult {
+  text: string;
+  level: "info" | "warning";
+}
+
+const SHOW_MAX_CHARS = 4000;
+const SEARCH_MAX_BLOBS = 20;
+const SEARCH_MAX_LINES_PER_BLOB = 3;
+const MIN_ID_PREFIX = 4;
+
+export const BLOBS_USAGE = [
+  "Usage: /kota blobs <subcommand>",
+  "  list [--tool <name>] [--since <30m|1h|2d>] [--limit <n>]",
+  "  show <id> [startLine]",
+  "  search <text>",
+  "  pin <id> | unpin <id>",
+  "  delete <id>",
+].join("\n");
+
+/** Parse "45s", "30m", "1h", "2d" into milliseconds. */
+export function parseDuration(value: string): number | null {
+  const m = /^(\d+)\s*([smhd])$/.exec(value.trim());
+  if (!m) return null;
+  const unit = { s: 1000, m: 60_000, h: 3_600_000, d: 86_400_000 }[m[2] as "s" | "m" | "h" | "d"];
+  return Number(m[1]) * unit;
+}
+
+function warn(text: string): BlobsCommandResult {
+  return { text, level: "warning" };
+}
+
+/** Resolve a full blob id or a unique prefix (as printed by `list`). */
+export function resolveBlobEntry(entries: BlobEntry[], idOrPrefix: string): BlobEntry | string {
+  if (!idOrPrefix) return "Missing blob id.";
+  const exact = entries.find((e) => e.blobId === idOrPrefix);
+  if (exact) return exact;
+  if (idOrPrefix.length < MIN_ID_PREFIX) return `Blob id prefix must be at least ${MIN_ID_PREFIX} characters.`;
+
+  const matches = entries.filter((e) => e.blobId.startsWith(idOrPrefix));
+  if (matches.length === 0) return `No blob matches "${idOrPrefix}".`;
+  if (new Set(matches.map((e) => e.blobId)).size > 1) return `Blob id "${idOrPrefix}" is ambiguous (${matches.length} matches).`;
+  return matches[0];
+}
+
+function parseListFlags(tokens: string[]): { tool?: string; sinceMs?: number; limit?: number } | string {
+  const out: { tool?: string; sinceMs?: number; limit?: number } = {};
+  for (let i = 0; i < tokens.length; i++) {
+    const flag = tokens[i];
+    const value = tokens[i + 1];
+    if (value === undefined) return `Missing value for ${flag}.`;
+    i++;
+
+    if (flag === "--tool") {
+      out.tool = value;
+    } else if (flag === "--since") {
+      const ms = parseDuration(value);
+      if (ms === null) return `Invalid --since value "${value}" (expected e.g. 30m, 1h, 2d).`;
+      out.sinceMs = ms;
+    } else if (flag === "--limit") {
+      const n = Number(value);
+      if (!Number.isInteger(n) || n < 1) return `Invalid --limit value "${value}".`;
+      out.limit = n;
+    } else {
+      return `Unknown flag ${flag}.`;
+    }
+  }
+  return out;
+}
+
+async function listCommand(dir: string, tokens: string[], now: number): Promise<BlobsCommandResult> {
+  const flags = parseListFlags(tokens);
+  if (typeof flags === "string") return warn(`${flags}\n${BLOBS_USAGE}`);
+
+  const entries = (await listAllBlobs(dir)).filter((e) => {
+    if (flags.tool && e.meta?.toolName !== flags.tool) return false;
+    if (flags.sinceMs !== undefined && now - blobCreatedMs(e) > flags.sinceMs) return false;
+    return true;
+  });
+
+  return { text: formatBlobList(entries, { dir, now, limit: flags.limit }), level: "info" };
+}
+
+/** Blobs written before redaction was enabled may still hold secrets; scrub them before display. */
+function scrub(content: string, redactor: Redactor | undefined): string {
+  return redactor ? redactText(content, redactor).text : content;
+}
+
+async function showCommand(dir: string, tokens: string[], redactor?: Redactor): Promise<BlobsCommandResult> {
+  const entry = resolveBlobEntry(await listAllBlobs(dir), tokens[0] ?? "");
+  if (typeof entry === "string") return warn(entry);
+
+  const startLine = tokens[1] !== undefined ? Number(tokens[1]) : 1;
+  if (!Number.isInteger(startLine) || startLine < 1) return warn(`Invalid start line "${tokens[1]}".`);
+
+  const content = scrub(await readBlobFile(entry.blobPath), redactor);
+  await recordBlobAccess(path.dirname(entry.blobPath), entry.blobId, entry.blobPath);
+
+  const slice = sliceBlob(content, { startLine, maxChars: SHOW_MAX_CHARS });
+  const meta = entry.meta;
+  const header = [
+    `blob ${entry.blobId}`,
+    meta?.toolName ? `tool: ${meta.toolName}${meta.args !== undefined ? ` ${JSON.stringify(meta.args)}` : ""}` : "",
+    meta?.repoRoot ? `repo: ${meta.repoRoot}${meta.commit ? ` @ ${meta.commit}` : ""}` : "",
+    meta?.pinned ? "pinned: yes" : "",
+    slice.range,
+  ].filter(Boolean);
+
+  const footer = slice.next?.startLine
+    ? `Next page: /kota blobs show ${entry.blobId.slice(0, 12)} ${slice.next.startLine}`
+    : "(end)";
+
+  return { text: [...header, "", slice.text, "", footer].join("\n"), level: "info" };
+}
+
+async function searchCommand(dir: string, query: string, redactor?: Redactor): Promise<BlobsCommandResult> {
+  if (!query) return warn(`Missing search text.\n${BLOBS_USAGE}`);
+  const needle = query.toLowerCase();
+
+  const entries = (await listAllBlobs(dir)).sort((a, b) => blobCreatedMs(b) - blobCreatedMs(a));
+  const hits: string[] = [];
+  let matchedBlobs = 0;
+
+  for (const entry of entries) {
+    let content: string;
+    try {
+      // Search the scrubbed text too, so a secret can't be probed for by its value.
+      content = scrub(await readBlobFile(entry.blobPath), redactor);
+    } catch {
+      continue;
+    }
+
+    const lines = content.split("\n");
+    const matching: string[] = [];
+    for (let i = 0; i < lines.length; i++) {
+      if (!lines[i].toLowerCase().includes(needle)) continue;
+      matching.push(`  ${i + 1}: ${lines[i].trim().slice(0, 160)}`);
+    }
+    if (matching.length === 0) continue;
+
+    matchedBlobs++;
+    if (matchedBlobs > SEARCH_MAX_BLOBS) continue;
+
+    hits.push(`${entry.blobId.slice(0, 12)}  ${entry.meta?.toolName ?? "(unknown tool)"}  (${matching.length} lines)`);
+    hits.push(...matching.slice(0, SEARCH_MAX_LINES_PER_BLOB));
+  }
+
+  if (matchedBlobs === 0) return { text: `No cached blobs contain "${query}".`, level: "info" };
+
+  const more = matchedBlobs > SEARCH_MAX_BLOBS ? [`… ${matchedBlobs - SEARCH_MAX_BLOBS} more blobs`] : [];
+  return { text: [`"${query}" found in ${matchedBlobs} blobs`, ...hits, ...more].join("\n"), level: "info" };
+}
+
+async function pinCommand(dir: string, tokens: string[], pinned: boolean): Promise<BlobsCommandResult> {
+  const entry = resolveBlobEntry(await listAllBlobs(dir), tokens[0] ?? "");
+  if (typeof entry === "string") return warn(entry);
+
+  await setBlobPinned(entry, pinned);
+  return {
+    text: pinned
+      ? `Pinned blob ${entry.blobId.slice(0, 12)} (exempt from eviction).`
+      : `Unpinned blob ${entry.blobId.slice(0, 12)}.`,
+    level: "info",
+  };
+}
+
+async function deleteCommand(dir: string, tokens: string[]): Promise<BlobsCommandResult> {
+  const entry = resolveBlobEntry(await listAllBlobs(dir), tokens[0] ?? "");
+  if (typeof entry === "string") return warn(entry);
+
+  await deleteBlob(entry);
+  return { text: `Deleted blob ${entry.blobId.slice(0, 12)} (${entry.bytes} bytes).`, level: "info" };
+}
+
+/** Dispatch `/kota blobs <args>`. */
+export async function runBlobsCommand(
+  args: string,
+  opts: { dir: string; now?: number; redactor?: Redactor },
+): Promise<BlobsCommandResult> {
+  const trimmed = args.trim();
+  const [sub = "list", ...tokens] = trimmed ? trimmed.split(/\s+/) : [];
+  const now = opts.now ?? Date.now();
+
+  switch (sub) {
+    case "list":
+      return listCommand(opts.dir, tokens, now);
+    case "show":
+      return showCommand(opts.dir, tokens, opts.redactor);
+    case "search":
+      return searchCommand(opts.dir, trimmed.slice("search".length).trim(), opts.redactor);
+    case "pin":
+      return pinCommand(opts.dir, tokens, true);
+    case "unpin":
+      return pinCommand(opts.dir, tokens, false);
+    case "delete":
+      return deleteCommand(opts.dir, tokens);
+    default:
+      return warn(`Unknown /kota blobs subcommand: ${sub}\n${BLOBS_USAGE}`);
+  }
+}
@@ -1,10 +1,24 @@
-import { readdir, stat, unlink } from "node:fs/promises";
+import { unlink } from "node:fs/promises";
 import path from "node:path";
 
+import { type BlobEntry, REPOS_DIR, lastAccessedMs, scanBlobCache, scanBlobDir } from "./blobs-manifest.js";
+
+export interface NamespaceQuota {
+  maxSizeBytes?: number;
+  maxAgeDays?: number;
+}
+
 export interface EvictOptions {
   dir: string;
   maxAgeDays: number;
+  /** Budget for the whole cache (flat dir + every repo namespace). */
   maxSizeBytes: number;
+  /** Default budget for each repo namespace; omitted means only the global budget applies. */
+  repoMaxSizeBytes?: number;
+  /** Per-namespace overrides keyed by namespace id (see `blobNamespace()`). */
+  namespaceQuotas?: Record<string, NamespaceQuota>;
+  /** Only evict within this repo namespace (e.g. `/kota evict-blobs --repo`). */
+  namespace?: string;
 }
 
 export interface EvictResult {
@@ -12,47 +26,40 @@ export interface EvictResult {
   removedBytes: number;
 }
 
-export async function evictBlobs(opts: EvictOptions): Promise<EvictResult> {
-  let entries: string[];
-  try {
-    entries = await readdir(opts.dir);
-  } catch (e: unknown) {
-    if (typeof e === "object" && e !== null && "code" in e && (e as { code?: string }).code === "ENOENT") {
-      return { removedCount: 0, removedBytes: 0 };
-    }
-    throw e;
-  }
-
-  if (entries.length === 0) return { removedCount: 0, removedBytes: 0 };
-
-  const now = Date.now();
-  const maxAgeMs = opts.maxAgeDays * 86_400_000;
-
-  type FileInfo = { fullPath: string; mtimeMs: number; size: number };
-  const files: FileInfo[] = [];
+export async function deleteBlob(entry: BlobEntry): Promise<void> {
+  await unlink(entry.blobPath);
+  if (entry.meta) await unlink(entry.metaPath).catch(() => {});
+}
 
-  for (const name of entries) {
-    const fullPath = path.join(opts.dir, name);
-    try {
-      const s = await stat(fullPath);
-      if (s.isFile()) {
-        files.push({ fullPath, mtimeMs: s.mtimeMs, size: s.size });
-      }
-    } catch {
-      // skip unreadable entries
-    }
+async function removeOrphans(metaPaths: string[]): Promise<void> {
+  // Sidecars whose blob was removed out-of-band carry no useful provenance.
+  for (const metaPath of metaPaths) {
+    await unlink(metaPath).catch(() => {});
   }
+}
 
-  let removedCount = 0;
-  let removedBytes = 0;
+/**
+ * Age out, then trim least-recently-used entries until under `maxSizeBytes`.
+ * Pinned blobs are never evicted and don't count against the size budget.
+ * Returns the unpinned survivors so callers can apply a wider budget on top.
+ */
+async function evictEntries(
+  files: BlobEntry[],
+  limits: { maxAgeDays: number; maxSizeBytes: number },
+  result: EvictResult,
+  now: number,
+): Promise<BlobEntry[]> {
+  const maxAgeMs = limits.maxAgeDays * 86_400_000;
 
-  const survivors: FileInfo[] = [];
+  const survivors: BlobEntry[] = [];
   for (const f of files) {
-    if (now - f.mtimeMs > maxAgeMs) {
+    if (f.meta?.pinned) continue;
+
+    if (now - lastAccessedMs(f) > maxAgeMs) {
       try {
-        await unlink(f.fullPath);
-        removedCount++;
-        removedBytes += f.size;
+        await deleteBlob(f);
+        result.removedCount++;
+        result.removedBytes += f.bytes;
       } catch {
         survivors.push(f);
       }
@@ -61,20 +68,67 @@ export async function evictBlobs(opts: EvictOptions): Promise<EvictResult> {
     }
   }
 
-  survivors.sort((a, b) => a.mtimeMs - b.mtimeMs);
-  let totalSize = survivors.reduce((sum, f) => sum + f.size, 0);
+  // Least-recently-used first.
+  survivors.sort((a, b) => lastAccessedMs(a) - lastAccessedMs(b));
+  let totalSize = survivors.reduce((sum, f) => sum + f.bytes, 0);
 
+  const kept: BlobEntry[] = [];
   for (const f of survivors) {
-    if (totalSize <= opts.maxSizeBytes) break;
+    if (totalSize <= limits.maxSizeBytes) {
+      kept.push(f);
+      continue;
+    }
     try {
-      await unlink(f.fullPath);
-      removedCount++;
-      removedBytes += f.size;
-      totalSize -= f.size;
+      await deleteBlob(f);
+      result.removedCount++;
+      result.removedBytes += f.bytes;
+      totalSize -= f.bytes;
     } catch {
-      // skip
+      kept.push(f);
     }
   }
 
-  return { removedCount, removedBytes };
+  return kept;
+}
+
+function namespaceLimits(opts: EvictOptions, namespace: string): { maxAgeDays: number; maxSizeBytes: number } {
+  const quota = opts.namespaceQuotas?.[namespace];
+  return {
+    maxAgeDays: quota?.maxAgeDays ?? opts.maxAgeDays,
+    maxSizeBytes: quota?.maxSizeBytes ?? opts.repoMaxSizeBytes ?? Infinity,
+  };
+}
+
+export async function evictBlobs(opts: EvictOptions): Promise<EvictResult> {
+  const result: EvictResult = { removedCount: 0, removedBytes: 0 };
+  const now = Date.now();
+
+  if (opts.namespace !== undefined) {
+    const scan = await scanBlobDir(path.join(opts.dir, REPOS_DIR, opts.namespace));
+    await removeOrphans(scan.orphanMetaPaths);
+    const limits = namespaceLimits(opts, opts.namespace);
+    await evictEntries(
+      scan.entries,
+      { maxAgeDays: limits.maxAgeDays, maxSizeBytes: Math.min(limits.maxSizeBytes, opts.maxSizeBytes) },
+      result,
+      now,
+    );
+    return result;
+  }
+
+  const { root, namespaces } = await scanBlobCache(opts.dir);
+  await removeOrphans([...root.orphanMetaPaths, ...namespaces.flatMap((ns) => ns.scan.orphanMetaPaths)]);
+
+  if (root.entries.length === 0 && namespaces.every((ns) => ns.scan.entries.length === 0)) return result;
+
+  // Per-repo quotas first so one noisy repo can't push another repo's blobs out...
+  const survivors = await evictEntries(root.entries, { maxAgeDays: opts.maxAgeDays, maxSizeBytes: Infinity }, result, now);
+  for (const ns of namespaces) {
+    survivors.push(...(await evictEntries(ns.scan.entries, namespaceLimits(opts, ns.namespace), result, now)));
+  }
+
+  // ...then the global budget across everything that is left.
+  await evictEntries(survivors, { maxAgeDays: Infinity, maxSizeBytes: opts.maxSizeBytes }, result, now);
+
+  return result;
 }
@@ -0,0 +1,57 @@
+import type { BlobEntry } from "./blobs-manifest.js";
+
+export function formatAge(ms: number): string {
+  const s = Math.max(0, Math.floor(ms / 1000));
+  if (s < 60) return `${s}s`;
+  const m = Math.floor(s / 60);
+  if (m < 60) return `${m}m`;
+  const h = Math.floor(m / 60);
+  if (h < 48) return `${h}h`;
+  return `${Math.floor(h / 24)}d`;
+}
+
+export function blobCreatedMs(entry: BlobEntry): number {
+  const created = entry.meta?.createdAt ? Date.parse(entry.meta.createdAt) : NaN;
+  return Number.isFinite(created) ? created : entry.mtimeMs;
+}
+
+function summarizeArgs(args: unknown, maxChars = 60): string {
+  if (args === undefined) return "";
+  const json = JSON.stringify(args) ?? "";
+  return json.length > maxChars ? json.slice(0, maxChars - 1) + "…" : json;
+}
+
+export function formatBlobEntry(entry: BlobEntry, now: number): string {
+  const meta = entry.meta;
+  const parts = [
+    entry.blobId.slice(0, 12),
+    formatAge(now - blobCreatedMs(entry)),
+    `${entry.bytes}B`,
+    meta?.toolName ?? "(unknown tool)",
+  ];
+
+  const args = summarizeArgs(meta?.args);
+  if (args) parts.push(args);
+  if (meta?.commit) parts.push(`@${meta.commit.slice(0, 8)}`);
+  if (meta?.pinned) parts.push("[pinned]");
+
+  return parts.join("  ");
+}
+
+/** Newest-first listing of the blob cache, one line per blob. */
+export function formatBlobList(entries: BlobEntry[], opts: { dir: string; now?: number; limit?: number }): string {
+  const now = opts.now ?? Date.now();
+  const limit = opts.limit ?? 10;
+  const sorted = [...entries].sort((a, b) => blobCreatedMs(b) - blobCreatedMs(a));
+  const totalBytes = entries.reduce((sum, e) => sum + e.bytes, 0);
+
+  const lines = [`pi-kota blobs (${entries.length} total, ${totalBytes} bytes) in ${opts.dir}`];
+  if (sorted.length === 0) {
+    lines.push("(empty)");
+  } else {
+    for (const entry of sorted.slice(0, limit)) lines.push(formatBlobEntry(entry, now));
+    if (sorted.length > limit) lines.push(`… ${sorted.length - limit} more`);
+  }
+
+  return lines.join("\n");
+}
@@ -0,0 +1,240 @@
+import { createHash, randomBytes } from "node:crypto";
+import { readFile, readdir, rename, stat, utimes, writeFile } from "node:fs/promises";
+import path from "node:path";
+
+import { normalizeRepoPath } from "./runtime.js";
+
+/** Subdirectory of `blobs.dir` holding one namespace directory per repository. */
+export const REPOS_DIR = "repos";
+
+/** Who/what produced a blob. Everything is optional so partial provenance is still recorded. */
+export interface BlobProvenance {
+  toolName?: string;
+  args?: unknown;
+  repoRoot?: string | null;
+  commit?: string | null;
+  sessionId?: string | null;
+}
+
+export interface BlobMeta extends BlobProvenance {
+  blobId: string;
+  createdAt: string;
+  lastAccessedAt: string;
+  originalChars: number;
+  /** Pinned blobs are exempt from eviction. */
+  pinned?: boolean;
+}
+
+export interface BlobEntry {
+  blobId: string;
+  blobPath: string;
+  metaPath: string;
+  /** On-disk (possibly compressed) size of the blob file, sidecar excluded. */
+  bytes: number;
+  mtimeMs: number;
+  meta: BlobMeta | null;
+}
+
+export interface BlobDirScan {
+  entries: BlobEntry[];
+  orphanMetaPaths: string[];
+  subdirs: string[];
+}
+
+const META_SUFFIX = ".meta.json";
+
+/** Stable, filesystem-safe namespace id for a repository root. */
+export function blobNamespace(repoRoot: string): string {
+  return createHash("sha256").update(normalizeRepoPath(repoRoot), "utf8").digest("hex").slice(0, 16);
+}
+
+/** Directory that blobs for `repoRoot` are written to; blobs without a repo stay in the flat root. */
+export function repoBlobDir(dir: string, repoRoot: string | null | undefined): string {
+  return repoRoot ? path.join(dir, REPOS_DIR, blobNamespace(repoRoot)) : dir;
+}
+
+function isEnoent(e: unknown): boolean {
+  return typeof e === "object" && e !== null && "code" in e && (e as { code?: string }).code === "ENOENT";
+}
+
+// Write-then-rename so concurrent writers never leave a half-written sidecar behind.
+async function writeMetaFile(metaPath: string, meta: BlobMeta): Promise<void> {
+  const tmpPath = `${metaPath}.${process.pid}.${randomBytes(4).toString("hex")}.tmp`;
+  await writeFile(tmpPath, JSON.stringify(meta, null, 2) + "\n", "utf8");
+  await rename(tmpPath, metaPath);
+}
+
+export function metaPathFor(dir: string, blobId: string): string {
+  return path.join(dir, `${blobId}${META_SUFFIX}`);
+}
+
+export function isMetaFile(name: string): boolean {
+  return name.endsWith(META_SUFFIX);
+}
+
+export async function readBlobMeta(dir: string, blobId: string): Promise<BlobMeta | null> {
+  try {
+    const raw = await readFile(metaPathFor(dir, blobId), "utf8");
+    const parsed = JSON.parse(raw) as unknown;
+    return typeof parsed === "object" && parsed !== null ? (parsed as BlobMeta) : null;
+  } catch (e: unknown) {
+    // Missing or corrupt sidecars degrade to "no provenance" rather than failing the caller.
+    if (isEnoent(e) || e instanceof SyntaxError) return null;
+    throw e;
+  }
+}
+
+/**
+ * Record provenance for a blob. Rewriting identical content keeps the original `createdAt`
+ * but refreshes provenance and `lastAccessedAt` to the most recent producer.
+ */
+export async function writeBlobMeta(
+  dir: string,
+  blobId: string,
+  opts: { provenance: BlobProvenance; originalChars: number; now?: Date },
+): Promise<BlobMeta> {
+  const now = (opts.now ?? new Date()).toISOString();
+  const existing = await readBlobMeta(dir, blobId).catch(() => null);
+
+  const meta: BlobMeta = {
+    ...(existing ?? {}),
+    ...opts.provenance,
+    blobId,
+    createdAt: existing?.createdAt ?? now,
+    lastAccessedAt: now,
+    originalChars: opts.originalChars,
+  };
+
+  await writeMetaFile(metaPathFor(dir, blobId), meta);
+  return meta;
+}
+
+/** Best-effort bump of `lastAccessedAt`. Returns false when the blob has no sidecar. */
+export async function touchBlobMeta(dir: string, blobId: string, now: Date = new Date()): Promise<boolean> {
+  try {
+    const meta = await readBlobMeta(dir, blobId);
+    if (!meta) return false;
+    meta.lastAccessedAt = now.toISOString();
+    await writeMetaFile(metaPathFor(dir, blobId), meta);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Record a read for LRU eviction: bump the sidecar when there is one, otherwise fall back to
+ * the blob file's mtime (which is what eviction uses for sidecar-less blobs).
+ */
+export async function recordBlobAccess(
+  dir: string,
+  blobId: string,
+  blobPath: string,
+  now: Date = new Date(),
+): Promise<void> {
+  if (await touchBlobMeta(dir, blobId, now)) return;
+  await utimes(blobPath, now, now).catch(() => {});
+}
+
+/** Last time a blob was written or read, in epoch ms. */
+export function lastAccessedMs(entry: BlobEntry): number {
+  const accessed = entry.meta?.lastAccessedAt ? Date.parse(entry.meta.lastAccessedAt) : NaN;
+  return Number.isFinite(accessed) ? Math.max(accessed, entry.mtimeMs) : entry.mtimeMs;
+}
+
+/** Pin or unpin a blob, creating a minimal sidecar for blobs written without provenance. */
+export async function setBlobPinned(entry: BlobEntry, pinned: boolean): Promise<BlobMeta> {
+  const existing = entry.meta ?? (await readBlobMeta(path.dirname(entry.metaPath), entry.blobId));
+  const createdAt = new Date(entry.mtimeMs).toISOString();
+  const meta: BlobMeta = {
+    ...(existing ?? { blobId: entry.blobId, createdAt, lastAccessedAt: createdAt, originalChars: entry.bytes }),
+    pinned,
+  };
+  if (!pinned) delete meta.pinned;
+
+  await writeMetaFile(entry.metaPath, meta);
+  return meta;
+}
+
+/**
+ * Enumerate blobs in `dir` with their sidecar metadata (if any).
+ * Sidecar files are folded into their blob entry; sidecars whose blob is gone are reported
+ * separately so eviction can clean them up.
+ */
+export async function scanBlobDir(dir: string): Promise<BlobDirScan> {
+  let names: string[];
+  try {
+    names = await readdir(dir);
+  } catch (e: unknown) {
+    if (isEnoent(e)) return { entries: [], orphanMetaPaths: [], subdirs: [] };
+    throw e;
+  }
+
+  const nameSet = new Set(names);
+  const entries: BlobEntry[] = [];
+  const subdirs: string[] = [];
+  const metaNames = new Set<string>();
+  for (const name of names) {
+    if (isMetaFile(name)) {
+      metaNames.add(name);
+      continue;
+    }
+    if (name.endsWith(".tmp")) continue;
+
+    const blobPath = path.join(dir, name);
+    try {
+      const s = await stat(blobPath);
+      if (s.isDirectory()) subdirs.push(name);
+      if (!s.isFile()) continue;
+
+      // `<id>.txt`, `<id>.json`, and compressed `<id>.txt.gz` / `<id>.txt.br` all map to `<id>`.
+      const dot = name.indexOf(".");
+      const blobId = dot === -1 ? name : name.slice(0, dot);
+      entries.push({
+        blobId,
+        blobPath,
+        metaPath: metaPathFor(dir, blobId),
+        bytes: s.size,
+        mtimeMs: s.mtimeMs,
+        meta: nameSet.has(`${blobId}${META_SUFFIX}`) ? await readBlobMeta(dir, blobId).catch(() => null) : null,
+      });
+    } catch {
+      // skip unreadable entries
+    }
+  }
+
+  const blobIds = new Set(entries.map((e) => e.blobId));
+  const orphanMetaPaths = [...metaNames]
+    .filter((name) => !blobIds.has(name.slice(0, -META_SUFFIX.length)))
+    .map((name) => path.join(dir, name));
+
+  return { entries, orphanMetaPaths, subdirs };
+}
+
+/** Scan the flat blob dir plus every per-repo namespace under `<dir>/repos/`. */
+export async function scanBlobCache(
+  dir: string,
+): Promise<{ root: BlobDirScan; namespaces: Array<{ namespace: string; dir: string; scan: BlobDirScan }> }> {
+  const root = await scanBlobDir(dir);
+  if (!root.subdirs.includes(REPOS_DIR)) return { root, namespaces: [] };
+
+  const reposDir = path.join(dir, REPOS_DIR);
+  const scanned = await scanBlobDir(reposDir);
+  const namespaces = [];
+  for (const namespace of scanned.subdirs) {
+    const nsDir = path.join(reposDir, namespace);
+    namespaces.push({ namespace, dir: nsDir, scan: await scanBlobDir(nsDir) });
+  }
+
+  return { root, namespaces };
+}
+
+/** Every blob in the cache, across the flat dir and all repo namespaces. */
+export async function listAllBlobs(dir: string): Promise<BlobEntry[]> {
+  const { root, namespaces } = await scanBlobCache(dir);
+  return [...root.entries, ...namespaces.flatMap((ns) => ns.scan.entries)];
+}
+
+export async function listBlobs(dir: string): Promise<BlobEntry[]> {
+  return (await scanBlobDir(dir)).entries;
+}
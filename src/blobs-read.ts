@@ -0,0 +1,155 @@
+import { truncateChars } from "./text.js";
+
+export interface BlobSliceOptions {
+  /** 1-based, inclusive. In grep mode this is where the scan starts. */
+  startLine?: number;
+  /** 1-based, inclusive. */
+  endLine?: number;
+  /** Byte offset (switches to byte mode). */
+  offset?: number;
+  /** Byte length (switches to byte mode). */
+  length?: number;
+  /** Regular expression (see `compilePattern` for the literal fallback); returns matching lines with line numbers. */
+  pattern?: string;
+  maxChars: number;
+}
+
+export interface BlobSlice {
+  mode: "lines" | "bytes" | "grep";
+  text: string;
+  /** Human-readable description of what was returned, e.g. "lines 1-40 of 900". */
+  range: string;
+  totalLines: number;
+  totalBytes: number;
+  /** Arguments to pass back to fetch the next page, if any remain. */
+  next?: Record<string, number>;
+}
+
+function splitLines(content: string): string[] {
+  if (content.length === 0) return [];
+  const lines = content.split("\n");
+  if (lines.at(-1) === "") lines.pop();
+  return lines;
+}
+
+/** Longer model-supplied patterns are matched literally rather than compiled. */
+const MAX_PATTERN_CHARS = 200;
+/** A quantified group that itself ends in a quantifier, e.g. `(a+)+`: the classic catastrophic-backtracking shape. */
+const NESTED_QUANTIFIER = /\([^)]*[+*}]\)[+*{]/;
+
+function compilePattern(pattern: string): RegExp {
+  if (pattern.length > MAX_PATTERN_CHARS || NESTED_QUANTIFIER.test(pattern)) {
+    return new RegExp(pattern.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"));
+  }
+  try {
+    return new RegExp(pattern);
+  } catch (e: unknown) {
+    const msg = e instanceof Error ? e.message : String(e);
+    throw new Error(`pi-kota: invalid pattern: ${msg}`);
+  }
+}
+
+function isContinuationByte(buf: Buffer, i: number): boolean {
+  return i > 0 && i < buf.length && (buf[i] & 0xc0) === 0x80;
+}
+
+/** Step `i` back to the first byte of the UTF-8 character it falls in. */
+function charStart(buf: Buffer, i: number): number {
+  while (isContinuationByte(buf, i)) i--;
+  return i;
+}
+
+function sliceBytes(content: string, opts: BlobSliceOptions): BlobSlice {
+  const buf = Buffer.from(content, "utf8");
+  const totalBytes = buf.length;
+  const offset = charStart(buf, Math.min(Math.max(0, Math.floor(opts.offset ?? 0)), totalBytes));
+  const length = Math.min(Math.max(1, Math.floor(opts.length ?? opts.maxChars)), opts.maxChars);
+  let end = charStart(buf, Math.min(totalBytes, offset + length));
+  // A window narrower than one character still returns that character, so paging always makes progress.
+  if (end <= offset && offset < totalBytes) {
+    end = offset + 1;
+    while (isContinuationByte(buf, end)) end++;
+  }
+
+  return {
+    mode: "bytes",
+    text: buf.subarray(offset, end).toString("utf8"),
+    range: `bytes ${offset}-${end} of ${totalBytes}`,
+    totalLines: splitLines(content).length,
+    totalBytes,
+    next: end < totalBytes ? { offset: end, length } : undefined,
+  };
+}
+
+function sliceLines(content: string, opts: BlobSliceOptions): BlobSlice {
+  const lines = splitLines(content);
+  const totalBytes = Buffer.byteLength(content, "utf8");
+  const start = Math.max(1, Math.floor(opts.startLine ?? 1));
+  const last = Math.min(lines.length, Math.floor(opts.endLine ?? lines.length));
+
+  const out: string[] = [];
+  let used = 0;
+  let lineNo = start;
+  for (; lineNo <= last; lineNo++) {
+    const line = lines[lineNo - 1];
+    const cost = line.length + (out.length > 0 ? 1 : 0);
+    if (out.length > 0 && used + cost > opts.maxChars) break;
+    // A single oversized line still gets returned (clipped) so paging always makes progress.
+    out.push(out.length === 0 ? truncateChars(line, opts.maxChars) : line);
+    used += cost;
+  }
+
+  const shownEnd = lineNo - 1;
+  return {
+    mode: "lines",
+    text: out.join("\n"),
+    range: out.length ? `lines ${start}-${shownEnd} of ${lines.length}` : `no lines in range (${lines.length} total)`,
+    totalLines: lines.length,
+    totalBytes,
+    next: shownEnd < last ? { startLine: shownEnd + 1 } : undefined,
+  };
+}
+
+function sliceGrep(content: string, opts: BlobSliceOptions & { pattern: string }): BlobSlice {
+  const re = compilePattern(opts.pattern);
+  const lines = splitLines(content);
+  const totalBytes = Buffer.byteLength(content, "utf8");
+  const start = Math.max(1, Math.floor(opts.startLine ?? 1));
+  const last = Math.min(lines.length, Math.floor(opts.endLine ?? lines.length));
+
+  const out: string[] = [];
+  let used = 0;
+  let lineNo = start;
+  let matchesShown = 0;
+  for (; lineNo <= last; lineNo++) {
+    const line = lines[lineNo - 1];
+    if (!re.test(line)) continue;
+
+    const entry = `${lineNo}: ${line}`;
+    const cost = entry.length + (out.length > 0 ? 1 : 0);
+    if (out.length > 0 && used + cost > opts.maxChars) break;
+    out.push(out.length === 0 ? truncateChars(entry, opts.maxChars) : entry);
+    used += cost;
+    matchesShown++;
+  }
+
+  const scannedTo = lineNo - 1;
+  return {
+    mode: "grep",
+    text: out.join("\n"),
+    range: `${matchesShown} matching lines in lines ${start}-${scannedTo} of ${lines.length}`,
+    totalLines: lines.length,
+    totalBytes,
+    next: scannedTo < last ? { startLine: scannedTo + 1 } : undefined,
+  };
+}
+
+export function sliceBlob(content: string, opts: BlobSliceOptions): BlobSlice {
+  if (opts.pattern !== undefined && opts.pattern.length > 0) {
+    return sliceGrep(content, { ...opts, pattern: opts.pattern });
+  }
+  if (opts.offset !== undefined || opts.length !== undefined) {
+    return sliceBytes(content, opts);
+  }
+  return sliceLines(content, opts);
+}
@@ -1,18 +1,124 @@
 import { createHash } from "node:crypto";
-import { mkdir, writeFile } from "node:fs/promises";
+import { mkdir, readFile, readdir, unlink, writeFile } from "node:fs/promises";
 import path from "node:path";
+import { promisify } from "node:util";
+import zlib from "node:zlib";
+
+import type { BlobCompression } from "./config.js";
+import { type BlobProvenance, REPOS_DIR, recordBlobAccess, writeBlobMeta } from "./blobs-manifest.js";
+
+const gzip = promisify(zlib.gzip);
+const gunzip = promisify(zlib.gunzip);
+const brotliCompress = promisify(zlib.brotliCompress);
+const brotliDecompress = promisify(zlib.brotliDecompress);
+
+const BLOB_ID_RE = /^[a-f0-9]{64}$/;
+const BLOB_EXTS = [".txt", ".json"] as const;
+
+const COMPRESSION_SUFFIX: Record<BlobCompression, string> = {
+  none: "",
+  gzip: ".gz",
+  brotli: ".br",
+};
+
+export function isBlobId(value: string): boolean {
+  return BLOB_ID_RE.test(value);
+}
+
+async function encode(content: string, compression: BlobCompression): Promise<Buffer> {
+  const raw = Buffer.from(content, "utf8");
+  if (compression === "gzip") return gzip(raw);
+  if (compression === "brotli") return brotliCompress(raw);
+  return raw;
+}
+
+/** Read a blob file from disk, transparently decompressing `.gz` / `.br` variants. */
+export async function readBlobFile(blobPath: string): Promise<string> {
+  const buf = await readFile(blobPath);
+  if (blobPath.endsWith(".gz")) return (await gunzip(buf)).toString("utf8");
+  if (blobPath.endsWith(".br")) return (await brotliDecompress(buf)).toString("utf8");
+  return buf.toString("utf8");
+}
 
 export async function writeBlob(opts: {
   dir: string;
   content: string;
   ext?: ".txt" | ".json";
-}): Promise<{ blobId: string; blobPath: string; bytes: number }> {
+  compression?: BlobCompression;
+  /** When given, a `<blobId>.meta.json` sidecar records where the blob came from. */
+  provenance?: BlobProvenance;
+}): Promise<{ blobId: string; blobPath: string; bytes: number; storedBytes: number }> {
   const ext = opts.ext ?? ".txt";
+  const compression = opts.compression ?? "none";
   const blobId = createHash("sha256").update(opts.content, "utf8").digest("hex");
-  const blobPath = path.join(opts.dir, `${blobId}${ext}`);
+  const blobPath = path.join(opts.dir, `${blobId}${ext}${COMPRESSION_SUFFIX[compression]}`);
+
+  const data = await encode(opts.content, compression);
 
   await mkdir(opts.dir, { recursive: true });
-  await writeFile(blobPath, opts.content, "utf8");
+  await writeFile(blobPath, data);
+
+  // Drop copies stored under a previous compression setting so the blob is only counted once.
+  for (const [mode, suffix] of Object.entries(COMPRESSION_SUFFIX)) {
+    if (mode === compression) continue;
+    await unlink(path.join(opts.dir, `${blobId}${ext}${suffix}`)).catch(() => {});
+  }
+
+  if (opts.provenance) {
+    await writeBlobMeta(opts.dir, blobId, {
+      provenance: opts.provenance,
+      originalChars: opts.content.length,
+    });
+  }
+
+  return { blobId, blobPath, bytes: Buffer.byteLength(opts.content, "utf8"), storedBytes: data.length };
+}
+
+async function namespaceDirs(root: string): Promise<string[]> {
+  const reposDir = path.join(root, REPOS_DIR);
+  try {
+    const entries = await readdir(reposDir, { withFileTypes: true });
+    return entries.filter((e) => e.isDirectory()).map((e) => path.join(reposDir, e.name));
+  } catch {
+    return [];
+  }
+}
+
+export async function readBlob(opts: {
+  dir: string;
+  blobId: string;
+  /** Namespace dir to try first (normally the current repo's). */
+  preferDir?: string;
+}): Promise<{ blobId: string; blobPath: string; content: string }> {
+  // Only accept bare sha256 ids so a caller can never address files outside the blob dir.
+  if (!isBlobId(opts.blobId)) {
+    throw new Error(`pi-kota: invalid blob id "${opts.blobId}" (expected a sha256 hex digest)`);
+  }
+
+  const root = path.resolve(opts.dir);
+  const preferred = opts.preferDir ? path.resolve(opts.preferDir) : null;
+  const dirs = [...(preferred ? [preferred] : []), root, ...(await namespaceDirs(root))].filter(
+    (d, i, all) => all.indexOf(d) === i && (d === root || d.startsWith(root + path.sep)),
+  );
+
+  for (const dir of dirs) {
+    for (const ext of BLOB_EXTS) {
+      for (const suffix of Object.values(COMPRESSION_SUFFIX)) {
+        const blobPath = path.join(dir, `${opts.blobId}${ext}${suffix}`);
+
+        try {
+          const content = await readBlobFile(blobPath);
+          await recordBlobAccess(dir, opts.blobId, blobPath);
+          return { blobId: opts.blobId, blobPath, content };
+        } catch (e: unknown) {
+          if (typeof e === "object" && e !== null && "code" in e && (e as { code?: string }).code === "ENOENT") {
+            continue;
+          }
+          throw e;
+        }
+      }
+    }
+  }
 
-  return { blobId, blobPath, bytes: Buffer.byteLength(opts.content, "utf8") };
+  throw new Error(`pi-kota: blob ${opts.blobId} not found in ${opts.dir}`);
 }
@@ -0,0 +1,47 @@
+export const BUDGET_KEYS = [
+  "kota_search",
+  "kota_deps",
+  "kota_usages",
+  "kota_impact",
+  "kota_task_context",
+  "autoContext",
+] as const;
+
+export type BudgetKey = (typeof BUDGET_KEYS)[number];
+
+/** Output budget for one tool; responses are cut to whichever limit is tighter. */
+export interface ToolBudget {
+  maxChars: number;
+  maxTokens: number;
+}
+
+export type ToolBudgets = Record<BudgetKey, ToolBudget>;
+
+export const DEFAULT_BUDGETS: ToolBudgets = {
+  kota_search: { maxChars: 5000, maxTokens: 1250 },
+  kota_deps: { maxChars: 5000, maxTokens: 1250 },
+  kota_usages: { maxChars: 5000, maxTokens: 1250 },
+  kota_impact: { maxChars: 8000, maxTokens: 2000 },
+  kota_task_context: { maxChars: 6000, maxTokens: 1500 },
+  autoContext: { maxChars: 4000, maxTokens: 1000 },
+};
+
+/** Used for kota calls without a budget of their own (e.g. `index`). */
+export const FALLBACK_BUDGET: ToolBudget = { maxChars: 5000, maxTokens: 1250 };
+
+export function isBudgetKey(key: string): key is BudgetKey {
+  return (BUDGET_KEYS as readonly string[]).includes(key);
+}
+
+/** Configured budget for `key`, tolerating configs that predate the `budgets` section. */
+export function resolveBudget(budgets: Partial<ToolBudgets> | undefined, key: string): ToolBudget {
+  if (!isBudgetKey(key)) return FALLBACK_BUDGET;
+  return budgets?.[key] ?? DEFAULT_BUDGETS[key];
+}
+
+export function formatBudgets(budgets: Partial<ToolBudgets> | undefined): string {
+  return BUDGET_KEYS.map((key) => {
+    const b = resolveBudget(budgets, key);
+    return `${key}=${b.maxChars}c/${b.maxTokens}t`;
+  }).join(", ");
+}
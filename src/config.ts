@@ -1,8 +1,26 @@
 import { readFile } from "node:fs/promises";
 import os from "node:os";
 import path from "node:path";
+import { BUDGET_KEYS, DEFAULT_BUDGETS, type ToolBudgets } from "./budgets.js";
+import { DEFAULT_RESTART_POLICY, type RestartPolicy } from "./kota/supervisor.js";
+import { DEFAULT_TOOL_TIMEOUTS, type KotaToolTimeouts, TIMEOUT_KEYS } from "./kota/timeouts.js";
+import {
+  DEFAULT_PRUNE_TIERS,
+  DEFAULT_PRUNE_TOOLS,
+  DEFAULT_SUMMARY_MAX_CHARS,
+  type PruneTier,
+  type PruneToolRule,
+  type PruneToolRules,
+} from "./prune-rules.js";
+import { DEFAULT_PRUNE_ASSISTANT, type PruneAssistantSettings } from "./prune-assistant.js";
 
 export type AutoContextMode = "off" | "onPaths" | "always";
+export type BlobCompression = "none" | "gzip" | "brotli";
+
+export interface RepoBlobQuota {
+  maxSizeBytes?: number;
+  maxAgeDays?: number;
+}
 
 export interface PiKotaConfig {
   kota: {
@@ -12,23 +30,56 @@ export interface PiKotaConfig {
     connectTimeoutMs: number;
     command: string;
     args: string[];
+    /** Backoff and circuit breaker for restarting a crashed KotaDB subprocess. */
+    restart: RestartPolicy;
+    /** Per-tool call timeouts in milliseconds (`index`, `search`, `deps`, …). */
+    timeouts: KotaToolTimeouts;
   };
   prune: {
     enabled: boolean;
     keepRecentTurns: number;
     maxToolChars: number;
+    /** Optional per-result token budget; when set, results over this or `maxToolChars` are truncated/pruned. */
+    maxToolTokens?: number;
     adaptive: boolean;
+    /** Combined token budget for pinned tool results; older pins beyond it are pruned normally. */
+    pinBudgetTokens: number;
+    /** Prune `read`s of files read again or edited since, and repeated identical `kota_*` queries. */
+    supersede: boolean;
+    /** Cap for the extractive summary (failing tests, tsc errors, exports…) kept in pruned results; 0 disables. */
+    summaryMaxChars: number;
+    /** Replace images in tool results older than `keepRecentTurns` with a text stand-in. */
+    images: boolean;
+    /** Condense old assistant text/thinking over a size threshold (off by default). */
+    assistant: PruneAssistantSettings;
+    /** Prunable tools keyed by name or glob (`mcp_*`), each with optional overrides. */
+    tools: PruneToolRules;
+    /** Adaptive tiers by percent of the model's context window (used when `adaptive` is on). */
+    tiers: PruneTier[];
   };
   blobs: {
     enabled: boolean;
     dir: string;
     maxAgeDays: number;
     maxSizeBytes: number;
+    repoMaxSizeBytes: number;
+    repos: Record<string, RepoBlobQuota>;
+    compression: BlobCompression;
+    autoEvict: boolean;
+    evictEveryWrites: number;
+  };
+  redact: {
+    enabled: boolean;
+    builtins: boolean;
+    entropy: boolean;
+    patterns: string[];
   };
   log: {
     enabled: boolean;
     path: string;
   };
+  /** Output budgets per kota tool (and auto-context injection). */
+  budgets: ToolBudgets;
 }
 
 export const DEFAULT_CONFIG: PiKotaConfig = {
@@ -39,23 +90,44 @@ export const DEFAULT_CONFIG: PiKotaConfig = {
     connectTimeoutMs: 10000,
     command: "bun",
     args: ["x", "kotadb@next", "--stdio", "--toolset", "core"],
+    restart: DEFAULT_RESTART_POLICY,
+    timeouts: DEFAULT_TOOL_TIMEOUTS,
   },
   prune: {
     enabled: true,
     keepRecentTurns: 2,
     maxToolChars: 1200,
     adaptive: true,
+    pinBudgetTokens: 4000,
+    supersede: true,
+    summaryMaxChars: DEFAULT_SUMMARY_MAX_CHARS,
+    images: true,
+    assistant: DEFAULT_PRUNE_ASSISTANT,
+    tools: DEFAULT_PRUNE_TOOLS,
+    tiers: DEFAULT_PRUNE_TIERS,
   },
   blobs: {
     enabled: true,
     dir: "~/.pi/cache/pi-kota/blobs",
     maxAgeDays: 7,
     maxSizeBytes: 50 * 1024 * 1024,
+    repoMaxSizeBytes: 20 * 1024 * 1024,
+    repos: {},
+    compression: "none",
+    autoEvict: true,
+    evictEveryWrites: 25,
+  },
+  redact: {
+    enabled: true,
+    builtins: true,
+    entropy: true,
+    patterns: [],
   },
   log: {
     enabled: false,
     path: "~/.pi/cache/pi-kota/debug.jsonl",
   },
+  budgets: DEFAULT_BUDGETS,
 };
 
 export function expandTilde(p: string, homeDir: string): string {
@@ -109,11 +181,118 @@ function sanitizeStringArray(value: unknown, fallback: string[]): string[] {
   return value.every((item) => typeof item === "string") ? value : fallback;
 }
 
+function sanitizeRepoQuotas(
+  value: unknown,
+  fallback: Record<string, RepoBlobQuota>,
+): Record<string, RepoBlobQuota> {
+  if (!isObject(value)) return fallback;
+
+  const out: Record<string, RepoBlobQuota> = {};
+  for (const [repo, quota] of Object.entries(value)) {
+    if (!isObject(quota)) continue;
+    const maxSizeBytes = sanitizeNumber(quota.maxSizeBytes, -1, 0);
+    const maxAgeDays = sanitizeNumber(quota.maxAgeDays, -1, 1);
+    out[repo] = {
+      ...(maxSizeBytes >= 0 ? { maxSizeBytes } : {}),
+      ...(maxAgeDays >= 1 ? { maxAgeDays } : {}),
+    };
+  }
+  return out;
+}
+
+/** User rules are layered over `fallback`; a default tool is switched off with `never: true`, not by omission. */
+function sanitizePruneTools(value: unknown, fallback: PruneToolRules): PruneToolRules {
+  if (!isObject(value)) return fallback;
+
+  const out: PruneToolRules = { ...fallback };
+  for (const [pattern, rule] of Object.entries(value)) {
+    if (!pattern.trim() || !isObject(rule)) continue;
+    const maxToolChars = sanitizeNumber(rule.maxToolChars, -1, 1);
+    const maxToolTokens = sanitizeNumber(rule.maxToolTokens, -1, 1);
+    const keepRecentTurns = sanitizeNumber(rule.keepRecentTurns, -1, 0);
+    const never = sanitizeBoolean(rule.never, false);
+    const entry: PruneToolRule = {
+      ...(maxToolChars >= 1 ? { maxToolChars } : {}),
+      ...(maxToolTokens >= 1 ? { maxToolTokens } : {}),
+      ...(keepRecentTurns >= 0 ? { keepRecentTurns } : {}),
+      ...(never ? { never } : {}),
+      // `never` wins over a contradictory `always`.
+      ...(!never && sanitizeBoolean(rule.always, false) ? { always: true } : {}),
+    };
+    out[pattern] = entry;
+  }
+  return out;
+}
+
+function sanitizeTimeouts(value: unknown, fallback: KotaToolTimeouts): KotaToolTimeouts {
+  const root = isObject(value) ? value : {};
+  const out = { ...fallback };
+  for (const key of TIMEOUT_KEYS) out[key] = sanitizeNumber(root[key], fallback[key], 1);
+  return out;
+}
+
+function sanitizeRestartPolicy(value: unknown, fallback: RestartPolicy): RestartPolicy {
+  if (!isObject(value)) return fallback;
+  return {
+    maxFailures: sanitizeNumber(value.maxFailures, fallback.maxFailures, 1),
+    windowMs: sanitizeNumber(value.windowMs, fallback.windowMs, 1),
+    baseDelayMs: sanitizeNumber(value.baseDelayMs, fallback.baseDelayMs, 0),
+    maxDelayMs: sanitizeNumber(value.maxDelayMs, fallback.maxDelayMs, 0),
+    cooldownMs: sanitizeNumber(value.cooldownMs, fallback.cooldownMs, 0),
+  };
+}
+
+function sanitizePruneAssistant(value: unknown, fallback: PruneAssistantSettings): PruneAssistantSettings {
+  if (!isObject(value)) return fallback;
+  return {
+    enabled: sanitizeBoolean(value.enabled, fallback.enabled),
+    maxChars: sanitizeNumber(value.maxChars, fallback.maxChars, 1),
+    maxTokens: sanitizeNumber(value.maxTokens, fallback.maxTokens, 1),
+  };
+}
+
+function sanitizePruneTiers(value: unknown, fallback: PruneTier[]): PruneTier[] {
+  if (!Array.isArray(value)) return fallback;
+
+  const out: PruneTier[] = [];
+  for (const tier of value) {
+    if (!isObject(tier)) continue;
+    const atPercent = sanitizeNumber(tier.atPercent, -1, 1);
+    if (atPercent < 1 || atPercent > 100) continue;
+    const keepRecentTurns = sanitizeNumber(tier.keepRecentTurns, -1, 0);
+    const maxToolChars = sanitizeNumber(tier.maxToolChars, -1, 1);
+    const maxToolTokens = sanitizeNumber(tier.maxToolTokens, -1, 1);
+    const tools = sanitizeStringArray(tier.tools, []);
+    out.push({
+      atPercent,
+      ...(keepRecentTurns >= 0 ? { keepRecentTurns } : {}),
+      ...(maxToolChars >= 1 ? { maxToolChars } : {}),
+      ...(maxToolTokens >= 1 ? { maxToolTokens } : {}),
+      ...(tools.length ? { tools } : {}),
+    });
+  }
+  return out.sort((a, b) => a.atPercent - b.atPercent);
+}
+
+function sanitizeBudgets(value: unknown, fallback: ToolBudgets): ToolBudgets {
+  const root = isObject(value) ? value : {};
+  const out = { ...fallback };
+  for (const key of BUDGET_KEYS) {
+    const budget = isObject(root[key]) ? root[key] : {};
+    out[key] = {
+      maxChars: sanitizeNumber(budget.maxChars, fallback[key].maxChars, 1),
+      maxTokens: sanitizeNumber(budget.maxTokens, fallback[key].maxTokens, 1),
+    };
+  }
+  return out;
+}
+
 export function sanitizeConfig(config: unknown, fallback: PiKotaConfig = DEFAULT_CONFIG): PiKotaConfig {
   const root = isObject(config) ? config : {};
   const kota = isObject(root.kota) ? root.kota : {};
   const prune = isObject(root.prune) ? root.prune : {};
   const blobs = isObject(root.blobs) ? root.blobs : {};
+  const redact = isObject(root.redact) ? root.redact : {};
   const log = isObject(root.log) ? root.log : {};
 
   const autoContext =
@@ -123,6 +302,13 @@ export function sanitizeConfig(config: unknown, fallback: PiKotaConfig = DEFAULT
 
   const command = sanitizeString(kota.command, fallback.kota.command);
 
+  const maxToolTokens = sanitizeNumber(prune.maxToolTokens, fallback.prune.maxToolTokens ?? -1, 1);
+
+  const compression =
+    blobs.compression === "none" || blobs.compression === "gzip" || blobs.compression === "brotli"
+      ? blobs.compression
+      : fallback.blobs.compression;
+
   return {
     kota: {
       toolset: kota.toolset === "core" ? "core" : fallback.kota.toolset,
@@ -131,23 +317,45 @@ export function sanitizeConfig(config: unknown, fallback: PiKotaConfig = DEFAULT
       connectTimeoutMs: sanitizeNumber(kota.connectTimeoutMs, fallback.kota.connectTimeoutMs, 1),
       command: command.length > 0 ? command : fallback.kota.command,
       args: sanitizeStringArray(kota.args, fallback.kota.args),
+      restart: sanitizeRestartPolicy(kota.restart, fallback.kota.restart),
+      timeouts: sanitizeTimeouts(kota.timeouts, fallback.kota.timeouts),
     },
     prune: {
       enabled: sanitizeBoolean(prune.enabled, fallback.prune.enabled),
       keepRecentTurns: sanitizeNumber(prune.keepRecentTurns, fallback.prune.keepRecentTurns, 0),
       maxToolChars: sanitizeNumber(prune.maxToolChars, fallback.prune.maxToolChars, 1),
+      ...(maxToolTokens >= 1 ? { maxToolTokens } : {}),
       adaptive: sanitizeBoolean(prune.adaptive, fallback.prune.adaptive),
+      pinBudgetTokens: sanitizeNumber(prune.pinBudgetTokens, fallback.prune.pinBudgetTokens, 0),
+      supersede: sanitizeBoolean(prune.supersede, fallback.prune.supersede),
+      summaryMaxChars: sanitizeNumber(prune.summaryMaxChars, fallback.prune.summaryMaxChars, 0),
+      images: sanitizeBoolean(prune.images, fallback.prune.images),
+      assistant: sanitizePruneAssistant(prune.assistant, fallback.prune.assistant),
+      tools: sanitizePruneTools(prune.tools, fallback.prune.tools),
+      tiers: sanitizePruneTiers(prune.tiers, fallback.prune.tiers),
     },
     blobs: {
       enabled: sanitizeBoolean(blobs.enabled, fallback.blobs.enabled),
       dir: sanitizeString(blobs.dir, fallback.blobs.dir),
       maxAgeDays: sanitizeNumber(blobs.maxAgeDays, fallback.blobs.maxAgeDays, 1),
       maxSizeBytes: sanitizeNumber(blobs.maxSizeBytes, fallback.blobs.maxSizeBytes, 0),
+      repoMaxSizeBytes: sanitizeNumber(blobs.repoMaxSizeBytes, fallback.blobs.repoMaxSizeBytes, 0),
+      repos: sanitizeRepoQuotas(blobs.repos, fallback.blobs.repos),
+      compression,
+      autoEvict: sanitizeBoolean(blobs.autoEvict, fallback.blobs.autoEvict),
+      evictEveryWrites: sanitizeNumber(blobs.evictEveryWrites, fallback.blobs.evictEveryWrites, 0),
+    },
+    redact: {
+      enabled: sanitizeBoolean(redact.enabled, fallback.redact.enabled),
+      builtins: sanitizeBoolean(redact.builtins, fallback.redact.builtins),
+      entropy: sanitizeBoolean(redact.entropy, fallback.redact.entropy),
+      patterns: sanitizeStringArray(redact.patterns, fallback.redact.patterns),
     },
     log: {
       enabled: sanitizeBoolean(log.enabled, fallback.log.enabled),
       path: sanitizeString(log.path, fallback.log.path),
     },
+    budgets: sanitizeBudgets(root.budgets, fallback.budgets),
   };
 }
 
@@ -197,6 +405,9 @@ export async function loadConfig(opts?: {
     blobs: {
       ...config.blobs,
       dir: expandTilde(config.blobs.dir, homeDir),
+      repos: Object.fromEntries(
+        Object.entries(config.blobs.repos).map(([repo, quota]) => [expandTilde(repo, homeDir), quota]),
+      ),
     },
     log: {
       ...config.log,
@@ -1,11 +1,14 @@
 import type { ExtensionAPI } from "@mariozechner/pi-coding-agent";
 
-import { loadConfig } from "./config.js";
+import { loadConfig, type PiKotaConfig } from "./config.js";
 import { createInitialRuntimeState, normalizeRepoPath } from "./runtime.js";
 import { formatStatusLine } from "./status.js";
 
 import { KotaMcpClient } from "./kota/mcp.js";
-import { callBudgeted } from "./kota/tools.js";
+import { callBudgeted, downshiftSearchArgs, formatDownshiftNote } from "./kota/tools.js";
+import { DEFAULT_RESTART_POLICY, isIdempotentKotaTool } from "./kota/supervisor.js";
+import { abortableDelay, formatTimeouts, resolveToolTimeout } from "./kota/timeouts.js";
+import type { KotaResult } from "./kota/parse.js";
 import { ensureIndexed } from "./kota/ensure.js";
 import { isIndexStale } from "./staleness.js";
 import { createLogger, type Logger } from "./logger.js";
@@ -17,14 +20,33 @@ import {
   kotaUsagesSchema,
   kotaImpactSchema,
   kotaTaskContextSchema,
+  kotaBlobReadSchema,
 } from "./kota/schemas.js";
 import { extractFilePaths } from "./paths.js";
 import { shouldAutoInject } from "./autocontext.js";
-import { computePruneSettings, pruneContextMessages } from "./prune.js";
+import {
+  computePruneSettings,
+  contextPercent,
+  planPrune,
+  pruneContextMessages,
+  type PruneOptions,
+  type PruneSettings,
+  toolText,
+} from "./prune.js";
+import { collectToolCalls } from "./placeholder.js";
+import { formatPruneDryRun, formatPruningReport, PruneLedger } from "./prune-ledger.js";
+import { DEFAULT_PRUNE_TIERS, DEFAULT_PRUNE_TOOLS, DEFAULT_SUMMARY_MAX_CHARS } from "./prune-rules.js";
 import { shouldTruncateToolResult } from "./toolResult.js";
-import { writeBlob } from "./blobs.js";
-import { evictBlobs } from "./blobs-evict.js";
-import { truncateChars } from "./text.js";
+import { readBlob, writeBlob } from "./blobs.js";
+import { sliceBlob } from "./blobs-read.js";
+import { evictBlobs, type EvictOptions } from "./blobs-evict.js";
+import { blobNamespace, repoBlobDir } from "./blobs-manifest.js";
+import { runBlobsCommand } from "./blobs-commands.js";
+import { runPinCommand } from "./pins.js";
+import { truncateOutput } from "./truncate.js";
+import { budgetChars, estimateTokens, fitsBudget } from "./tokens.js";
+import { type BudgetKey, formatBudgets, resolveBudget, type ToolBudget } from "./budgets.js";
+import { createRedactor, mergeRedactionCounts, redactText, redactValue, redactionDetails } from "./redact.js";
 
 async function detectRepoRoot(pi: ExtensionAPI, cwd: string): Promise<string> {
   try {
@@ -45,6 +67,33 @@ async function getHeadCommit(pi: ExtensionAPI, cwd: string): Promise<string | nu
   }
 }
 
+const BLOB_READ_MAX_CHARS = 5000;
+/** Share of a `tool_result` excerpt kept from the end of the output, where totals and summaries sit. */
+const EXCERPT_TAIL_RATIO = 0.2;
+const PRUNING_REPORT_LIMIT = 10;
+
+function blobEvictOptions(blobs: PiKotaConfig["blobs"], namespace?: string): EvictOptions {
+  return {
+    dir: blobs.dir,
+    maxAgeDays: blobs.maxAgeDays,
+    maxSizeBytes: blobs.maxSizeBytes,
+    repoMaxSizeBytes: blobs.repoMaxSizeBytes,
+    namespaceQuotas: Object.fromEntries(
+      Object.entries(blobs.repos).map(([repoRoot, quota]) => [blobNamespace(repoRoot), quota]),
+    ),
+    ...(namespace !== undefined ? { namespace } : {}),
+  };
+}
+
+/** Structured KotaDB result for `details`; omitted when the response shape wasn't recognized. */
+function dataDetails(data: KotaResult | null): { data?: KotaResult } {
+  return data ? { data } : {};
+}
+
+function blobDetails(blobId: string | undefined): { blobId?: string } {
+  return blobId ? { blobId } : {};
+}
+
 export default function (pi: ExtensionAPI) {
   const state = createInitialRuntimeState();
 
@@ -54,11 +103,16 @@ export default function (pi: ExtensionAPI) {
       repoRoot: state.repoRoot,
       indexed: !!(state.repoRoot && state.indexedRepoRoot === normalizeRepoPath(state.repoRoot)),
       lastError: state.lastError,
+      circuit: state.supervisor.circuit,
     };
   }
 
+  // Last UI context, so crashes noticed outside a tool call can still refresh the status line.
+  let statusCtx: { cwd: string; hasUI?: boolean; ui?: any } | null = null;
+
   function updateStatus(ctx: { cwd: string; hasUI?: boolean; ui?: any }) {
     if (!ctx.hasUI) return;
+    statusCtx = ctx;
 
     const fg =
       typeof ctx.ui?.theme?.fg === "function"
@@ -88,6 +142,7 @@ export default function (pi: ExtensionAPI) {
   }
 
   let logger: Logger = makeSafeLogger({ async log() {}, async close() {} });
+  let redactor = createRedactor();
 
   async function refreshConfig(ctx: { cwd: string }) {
     if (!state.repoRoot) {
@@ -97,9 +152,73 @@ export default function (pi: ExtensionAPI) {
     const res = await loadConfig({ cwd: ctx.cwd, projectRoot: state.repoRoot });
     state.config = res.config;
     state.configSources = res.sources;
+    redactor = createRedactor(res.config.redact);
+  }
+
+  function warnInvalidRedactPatterns(ctx: { hasUI?: boolean; ui?: any }) {
+    if (!ctx.hasUI || redactor.invalidPatterns.length === 0) return;
+    ctx.ui.notify(`pi-kota: ignoring invalid redact.patterns: ${redactor.invalidPatterns.join(", ")}`, "warning");
+  }
+
+  /** Best-effort background eviction; concurrent triggers share one run. */
+  function autoEvictBlobs(reason: "session_start" | "writes"): Promise<void> {
+    if (state.blobEvictPromise) return state.blobEvictPromise;
+
+    const config = state.config;
+    if (!config?.blobs.enabled || !config.blobs.autoEvict) return Promise.resolve();
+
+    state.blobWritesSinceEvict = 0;
+    const run = (async () => {
+      try {
+        const res = await evictBlobs(blobEvictOptions(config.blobs));
+        await logger.log("blobs", "auto_evict", { reason, ...res });
+      } catch (e: unknown) {
+        await logger.log("blobs", "auto_evict_error", {
+          reason,
+          error: e instanceof Error ? e.message : String(e),
+        });
+      } finally {
+        state.blobEvictPromise = null;
+      }
+    })();
+
+    state.blobEvictPromise = run;
+    return run;
+  }
+
+  function circuitOpenError(): string {
+    return `pi-kota: KotaDB keeps crashing; ${state.supervisor.describe()}. Run /kota restart to retry now.`;
+  }
+
+  /**
+   * The subprocess died (exit or broken pipe). Drop the client so the next call restarts it, and
+   * count the crash towards backoff and the circuit breaker. Reported once per client.
+   */
+  function handleCrash(client: KotaMcpClient | null, reason: unknown): void {
+    if (!client || state.mcp !== client) return;
+    state.mcp = null;
+    // A transport error can leave the child running; always tear it down before a restart spawns another.
+    void client.close().catch(() => {});
+
+    state.supervisor.recordFailure();
+    const error = reason instanceof Error ? reason.message : String(reason);
+    void logger.log("mcp", "crash", { error, circuit: state.supervisor.circuit });
+
+    if (state.supervisor.circuit === "open") {
+      state.kotaStatus = "error";
+      state.lastError = circuitOpenError();
+      if (statusCtx) updateStatus(statusCtx);
+    }
   }
 
-  async function ensureConnected(ctx: { cwd: string; hasUI?: boolean; ui?: any }): Promise<void> {
+  /**
+   * Connect (or restart) KotaDB, waiting out the crash backoff; `quiet` skips the "starting" status flicker.
+   * Aborting `signal` ends the backoff wait early.
+   */
+  async function ensureConnected(
+    ctx: { cwd: string; hasUI?: boolean; ui?: any },
+    opts?: { quiet?: boolean; signal?: AbortSignal },
+  ): Promise<void> {
     if (!state.config) throw new Error("pi-kota: config not loaded");
     if (!state.repoRoot) state.repoRoot = await detectRepoRoot(pi, ctx.cwd);
 
@@ -108,26 +227,46 @@ export default function (pi: ExtensionAPI) {
       return;
     }
 
-    state.kotaStatus = "starting";
-    updateStatus(ctx);
+    const supervisor = state.supervisor;
+    supervisor.setPolicy(state.config.kota.restart ?? DEFAULT_RESTART_POLICY);
+    if (supervisor.circuit === "open") {
+      state.kotaStatus = "error";
+      state.lastError = circuitOpenError();
+      updateStatus(ctx);
+      throw new Error(state.lastError);
+    }
+
+    if (!opts?.quiet) {
+      state.kotaStatus = "starting";
+      updateStatus(ctx);
+    }
 
-    const client = new KotaMcpClient({
+    const delayMs = supervisor.backoffMs();
+    if (delayMs > 0) {
+      await logger.log("mcp", "backoff", { delayMs, circuit: supervisor.circuit });
+      await abortableDelay(delayMs, opts?.signal, () => new Error("pi-kota: KotaDB restart cancelled"));
+    }
+
+    const client: KotaMcpClient = new KotaMcpClient({
       command: state.config.kota.command,
       args: state.config.kota.args,
       cwd: state.repoRoot,
       connectTimeoutMs: state.config.kota.connectTimeoutMs,
+      onExit: () => handleCrash(client, "KotaDB subprocess exited"),
     });
 
     try {
       await client.connect();
       state.mcp = client;
+      supervisor.recordSuccess();
       state.kotaStatus = "running";
       state.lastError = null;
 
       await logger.log("mcp", "connected", { repo: state.repoRoot ?? "(unknown)" });
 
-      updateStatus(ctx);
+      if (!opts?.quiet) updateStatus(ctx);
     } catch (e: unknown) {
+      supervisor.recordFailure();
       state.kotaStatus = "error";
       state.lastError = e instanceof Error ? e.message : String(e);
       state.mcp = null;
@@ -153,8 +292,21 @@ export default function (pi: ExtensionAPI) {
     ctx: { cwd: string; hasUI?: boolean; ui?: any },
     toolName: string,
     args: unknown,
-  ): Promise<{ text: string; raw: unknown; ok: boolean }> {
-    await ensureConnected(ctx);
+    opts?: { downshift?: typeof downshiftSearchArgs; budget?: BudgetKey; signal?: AbortSignal },
+  ): Promise<{
+    text: string;
+    raw: unknown;
+    ok: boolean;
+    downshifts: string[];
+    data: KotaResult | null;
+    redactions: Record<string, number>;
+    budget: ToolBudget;
+    blobId?: string;
+  }> {
+    const signal = opts?.signal;
+    if (signal?.aborted) throw new Error(`pi-kota: ${toolName} cancelled`);
+
+    await ensureConnected(ctx, { signal });
     if (!state.config || !state.mcp) throw new Error("pi-kota: not connected");
 
     const before = getRenderedStatusInfo();
@@ -162,35 +314,82 @@ export default function (pi: ExtensionAPI) {
     const t0 = Date.now();
     await logger.log("tool", "call_start", { toolName });
 
-    const release = state.inFlight.acquire();
-    try {
+    const budget = resolveBudget(state.config.budgets, opts?.budget ?? `kota_${toolName}`);
+    const timeoutMs = resolveToolTimeout(state.config.kota.timeouts, toolName);
+
+    const callOnce = async () => {
+      const mcp = state.mcp;
+      if (!mcp) throw new Error("pi-kota: not connected");
+
+      let crashed = false;
       const res = await callBudgeted({
         toolName,
         args,
-        maxChars: 5000,
-        listTools: () => state.mcp!.listTools(),
-        callTool: (n, a) => state.mcp!.callTool(n, a),
-        onTransportError: () => state.mcp?.disconnect(),
+        maxChars: budget.maxChars,
+        maxTokens: budget.maxTokens,
+        listTools: () => mcp.listTools(),
+        callTool: (n, a, o) => mcp.callTool(n, a, o),
+        onTransportError: (e) => {
+          crashed = true;
+          handleCrash(mcp, e);
+        },
+        downshift: opts?.downshift,
+        signal,
+        timeoutMs,
+        saveFull: state.config?.blobs.enabled
+          ? async (full) => (await saveToolBlob(ctx, `kota_${toolName}`, redactText(full, redactor).text, args)).blobId
+          : undefined,
       });
+      // The exit handler may have dropped the client before the pending request was rejected.
+      return { res, crashed: crashed || state.mcp !== mcp };
+    };
+
+    const release = state.inFlight.acquire();
+    // A cancelled call gives its slot back at once, so shutdown never waits on an abandoned request.
+    signal?.addEventListener("abort", release, { once: true });
+    try {
+      let { res, crashed } = await callOnce().catch(async (e: unknown) => {
+        if (signal?.aborted) await logger.log("tool", "cancelled", { toolName, durationMs: Date.now() - t0 });
+        throw e;
+      });
+
+      // Read-only calls that died with the subprocess are re-issued once on a fresh one.
+      if (crashed && !res.ok && !signal?.aborted && isIdempotentKotaTool(toolName)) {
+        await logger.log("tool", "retry", { toolName });
+        try {
+          await ensureConnected(ctx, { quiet: true, signal });
+          ({ res } = await callOnce());
+        } catch {
+          // Restart refused (circuit open) or failed: report the original error.
+        }
+      }
+
+      // Scrub secrets before the text can reach the model, a blob or the log.
+      const redacted = redactText(res.text, redactor);
+      const data = res.data ? redactValue(res.data, redactor) : null;
 
       await logger.log("tool", "call_end", {
         toolName,
         ok: res.ok,
         durationMs: Date.now() - t0,
+        redacted: redacted.count,
+        downshifts: res.downshifts,
       });
 
-      return res;
+      return { ...res, text: redacted.text, data, redactions: redacted.byRule, budget };
     } finally {
       const after = getRenderedStatusInfo();
       if (
         before.kotaStatus !== after.kotaStatus ||
         before.repoRoot !== after.repoRoot ||
         before.indexed !== after.indexed ||
-        before.lastError !== after.lastError
+        before.lastError !== after.lastError ||
+        before.circuit !== after.circuit
       ) {
         updateStatus(ctx);
       }
 
+      signal?.removeEventListener("abort", release);
       release();
     }
   }
@@ -199,8 +398,17 @@ export default function (pi: ExtensionAPI) {
     ctx: { cwd: string; hasUI?: boolean; ui?: any },
     toolName: string,
     args: unknown,
-  ): Promise<{ text: string; raw: unknown }> {
-    const res = await callKotaTool(ctx, toolName, args);
+    opts?: { downshift?: typeof downshiftSearchArgs; budget?: BudgetKey; signal?: AbortSignal },
+  ): Promise<{
+    text: string;
+    raw: unknown;
+    downshifts: string[];
+    data: KotaResult | null;
+    redactions: Record<string, number>;
+    budget: ToolBudget;
+    blobId?: string;
+  }> {
+    const res = await callKotaTool(ctx, toolName, args, opts);
     if (!res.ok) throw new Error(res.text);
     return res;
   }
@@ -231,7 +439,10 @@ export default function (pi: ExtensionAPI) {
     state.stalenessWarnedForHead = head;
   }
 
-  async function ensureRepoIndexed(ctx: { cwd: string; hasUI?: boolean; ui?: any }): Promise<void> {
+  async function ensureRepoIndexed(
+    ctx: { cwd: string; hasUI?: boolean; ui?: any },
+    signal?: AbortSignal,
+  ): Promise<void> {
     if (!state.config) throw new Error("pi-kota: config not loaded");
     const targetPath = normalizeRepoPath(state.repoRoot ?? ctx.cwd);
     const wasAlreadyIndexed = state.indexedRepoRoot === targetPath;
@@ -253,8 +464,9 @@ export default function (pi: ExtensionAPI) {
       },
       confirmIndex: state.config.kota.confirmIndex,
       confirm: (t, m) => (ctx.hasUI ? ctx.ui.confirm(t, m) : Promise.resolve(true)),
+      signal,
       index: async () => {
-        await callKotaToolStrict(ctx, "index", { path: targetPath });
+        await callKotaToolStrict(ctx, "index", { path: targetPath }, { signal });
         state.indexedAtCommit = await getHeadCommit(pi, state.repoRoot ?? ctx.cwd);
       },
     });
@@ -268,14 +480,22 @@ export default function (pi: ExtensionAPI) {
 
   pi.on("session_start", async (_event, ctx: any) => {
     state.repoRoot = await detectRepoRoot(pi, ctx.cwd);
+    state.pruneLedger = new PruneLedger();
+    // Pins name tool calls of the previous session; they mean nothing in the new one.
+    state.pinnedToolCallIds = [];
+    state.lastToolCallId = null;
     await refreshConfig(ctx);
 
     logger = makeSafeLogger(
       await createLogger({
         enabled: state.config?.log.enabled ?? false,
         path: state.config?.log.path,
+        redactor,
       }),
     );
+    warnInvalidRedactPatterns(ctx);
+
+    void autoEvictBlobs("session_start");
 
     updateStatus(ctx);
   });
@@ -288,7 +508,7 @@ export default function (pi: ExtensionAPI) {
     if (!shouldAutoInject(paths, state.config.kota.autoContext)) return;
 
     try {
-      const res = await callKotaTool(ctx, "task_context", { files: paths });
+      const res = await callKotaTool(ctx, "task_context", { files: paths }, { budget: "autoContext" });
       if (!res.ok) return;
       return {
         message: {
@@ -302,67 +522,202 @@ export default function (pi: ExtensionAPI) {
     }
   });
 
+  /**
+   * Write an (already redacted) tool output to the repo's blob namespace with provenance.
+   * Pass `commit` when the caller already resolved HEAD.
+   */
+  async function saveToolBlob(ctx: any, toolName: string, text: string, args: unknown, commit?: string | null) {
+    if (!state.config) throw new Error("pi-kota: config not loaded");
+
+    const blob = await writeBlob({
+      dir: repoBlobDir(state.config.blobs.dir, state.repoRoot),
+      content: text,
+      compression: state.config.blobs.compression,
+      provenance: {
+        toolName,
+        args: redactValue(args, redactor),
+        repoRoot: state.repoRoot,
+        commit: commit !== undefined ? commit : state.repoRoot ? await getHeadCommit(pi, state.repoRoot) : null,
+        sessionId: ctx?.sessionManager?.getSessionId?.() ?? null,
+      },
+    });
+    state.blobWritesSinceEvict++;
+    if (state.config.blobs.evictEveryWrites > 0 && state.blobWritesSinceEvict >= state.config.blobs.evictEveryWrites) {
+      void autoEvictBlobs("writes");
+    }
+    return blob;
+  }
+
+  /**
+   * Save the exact text of results about to be pruned (read/bash output can't be reproduced by
+   * re-running), so their placeholders can point at a blob. Best-effort; written once per tool call.
+   * Runs before every model call, so HEAD is resolved once per pass and the writes go out together.
+   */
+  async function blobPrunedOutputs(messages: unknown[], opts: PruneOptions, ctx: any): Promise<void> {
+    const pending: Array<{ toolName: string; toolCallId: string; content?: unknown[] }> = [];
+    for (const { index, reason } of planPrune(messages, opts)) {
+      // Image decisions keep the result's text; kota_blob_read pages already point at a blob.
+      if (reason === "image") continue;
+      const m = messages[index] as { toolName: string; toolCallId?: unknown; details?: { blobId?: unknown } };
+      if (m.toolName === "kota_blob_read" || typeof m.details?.blobId === "string") continue;
+      if (typeof m.toolCallId !== "string" || state.prunedBlobIds.has(m.toolCallId)) continue;
+      pending.push(m as { toolName: string; toolCallId: string });
+    }
+    if (pending.length === 0) return;
+
+    const calls = collectToolCalls(messages);
+    const commit = state.repoRoot ? await getHeadCommit(pi, state.repoRoot) : null;
+    await Promise.all(
+      pending.map(async (m) => {
+        try {
+          const text = redactText(toolText(m), redactor).text;
+          const args = calls.get(m.toolCallId)?.arguments ?? null;
+          const blob = await saveToolBlob(ctx, m.toolName, text, args, commit);
+          state.prunedBlobIds.set(m.toolCallId, blob.blobId);
+        } catch {
+          // Fall back to the re-run hint.
+        }
+      }),
+    );
+  }
+
+  /** Prune settings after adaptive adjustment for the current context usage, plus the options built from them. */
+  function effectivePruning(ctx: any): { effective: PruneSettings; percent?: number; opts: PruneOptions } | null {
+    if (!state.config) return null;
+    const prune = state.config.prune;
+
+    const usage = ctx.getContextUsage?.();
+    const percent = contextPercent(usage);
+    const base: PruneSettings = {
+      keepRecentTurns: prune.keepRecentTurns,
+      maxToolChars: prune.maxToolChars,
+      ...(prune.maxToolTokens !== undefined ? { maxToolTokens: prune.maxToolTokens } : {}),
+    };
+
+    const effective = prune.adaptive
+      ? computePruneSettings(base, usage?.tokens, { percent, tiers: prune.tiers ?? DEFAULT_PRUNE_TIERS })
+      : base;
+
+    return {
+      effective,
+      percent,
+      opts: {
+        keepRecentTurns: effective.keepRecentTurns,
+        maxToolChars: effective.maxToolChars,
+        maxToolTokens: effective.maxToolTokens,
+        toolRules: prune.tools ?? DEFAULT_PRUNE_TOOLS,
+        extraTools: effective.extraTools,
+        ruleBudgetScale: Math.min(1, effective.maxToolChars / base.maxToolChars),
+        pinnedToolCallIds: new Set(state.pinnedToolCallIds),
+        pinBudgetTokens: prune.pinBudgetTokens,
+        supersede: prune.supersede,
+        repoRoot: state.repoRoot ?? ctx.cwd,
+        summaryMaxChars: prune.summaryMaxChars ?? DEFAULT_SUMMARY_MAX_CHARS,
+        ...(prune.assistant?.enabled ? { assistant: prune.assistant } : {}),
+        images: prune.images,
+      },
+    };
+  }
+
+  /**
+   * Messages the next model call would start from: the current branch since the last compaction,
+   * plus a new user turn when the agent is idle (the next call follows a prompt).
+   */
+  function nextContextMessages(ctx: any): unknown[] {
+    const entries: any[] = ctx.sessionManager?.getBranch?.() ?? [];
+    let keptFrom = 0;
+    for (let i = entries.length - 1; i >= 0; i--) {
+      if (entries[i]?.type !== "compaction") continue;
+      keptFrom = Math.max(0, entries.findIndex((e) => e?.id === entries[i].firstKeptEntryId));
+      break;
+    }
+
+    const messages = entries
+      .slice(keptFrom)
+      .filter((e) => e?.type === "message")
+      .map((e) => e.message);
+
+    if (messages.at(-1)?.role === "assistant") messages.push({ role: "user", content: [] });
+    return messages;
+  }
+
   (pi as any).on("context", async (event: any, ctx: any) => {
     if (!state.config) return;
     if (!state.config.prune.enabled) return;
 
-    const usage = ctx.getContextUsage?.();
-    const base = {
-      keepRecentTurns: state.config.prune.keepRecentTurns,
-      maxToolChars: state.config.prune.maxToolChars,
-    };
+    const pruning = effectivePruning(ctx);
+    if (!pruning) return;
 
-    const effective = state.config.prune.adaptive ? computePruneSettings(base, usage?.tokens) : base;
+    const messages = event.messages as unknown[];
+    if (state.config.blobs.enabled) await blobPrunedOutputs(messages, pruning.opts, ctx);
 
-    const pruned = pruneContextMessages(event.messages as unknown[], {
-      keepRecentTurns: effective.keepRecentTurns,
-      maxToolChars: effective.maxToolChars,
-      pruneToolNames: new Set(["read", "bash", "kota_search"]),
-    });
+    const opts = { ...pruning.opts, blobIds: state.prunedBlobIds };
+    const plan = planPrune(messages, opts);
+    const pruned = pruneContextMessages(messages, opts, plan);
+    state.pruneLedger.record(plan, messages, pruned, pruning.effective.tier);
 
     return { messages: pruned };
   });
 
-  pi.on("tool_result", async (event: any) => {
+  pi.on("tool_result", async (event: any, ctx: any) => {
+    if (typeof event.toolCallId === "string") state.lastToolCallId = event.toolCallId;
     if (!state.config) return;
     if (!state.config.blobs.enabled) return;
     if (!shouldTruncateToolResult(event.toolName)) return;
+    if (typeof event.details?.blobId === "string") return;
+
+    const redacted = redactText(toolText(event), redactor);
+    const text = redacted.text;
 
-    const textBlock = (event.content ?? []).find((b: any) => b?.type === "text" && typeof b.text === "string");
-    const text = textBlock?.text ?? "";
+    // callKotaTool already blobbed and cut kota output to its own budget; only results that slipped past it land here.
+    const budget = resolveBudget(state.config.budgets, event.toolName);
+    if (fitsBudget(text, budget)) return;
 
-    if (text.length <= state.config.prune.maxToolChars) return;
+    const redactions: Record<string, number> = { ...(event.details?.redactions?.byRule ?? {}) };
+    mergeRedactionCounts(redactions, redacted.byRule);
 
-    const blob = await writeBlob({ dir: state.config.blobs.dir, content: text });
-    const excerpt = truncateChars(text, state.config.prune.maxToolChars);
+    const blob = await saveToolBlob(ctx, event.toolName, text, event.input);
+
+    const excerpt = truncateOutput(text, budgetChars(text, budget), {
+      unit: "results",
+      blobId: blob.blobId,
+      tailRatio: EXCERPT_TAIL_RATIO,
+    });
 
     const replacement =
-      `${excerpt}\n\n` +
+      `${excerpt.text}\n\n` +
       `[pi-kota] Output truncated. Full output saved to blob:\n` +
       `- blobId: ${blob.blobId}\n` +
-      `- blobPath: ${blob.blobPath}`;
+      `- blobPath: ${blob.blobPath}\n` +
+      `Use kota_blob_read(blob_id="${blob.blobId}") with start_line/end_line or pattern to page through it.`;
 
+    // All text blocks collapse into the excerpt; images and other blocks are passed through.
+    const otherBlocks = (Array.isArray(event.content) ? event.content : []).filter((b: any) => b?.type !== "text");
     return {
-      content: [{ type: "text", text: replacement }],
+      content: [{ type: "text", text: replacement }, ...otherBlocks],
       details: {
         ...(event.details ?? {}),
         truncated: true,
         blobId: blob.blobId,
         blobPath: blob.blobPath,
         originalChars: text.length,
+        originalTokens: estimateTokens(text),
+        omittedRecords: excerpt.omitted,
+        ...redactionDetails(redactions),
       },
     };
   });
 
   pi.on("session_shutdown", async () => {
     await state.inFlight.drain(3000);
+    await state.blobEvictPromise;
     await logger.close();
     await state.mcp?.close().catch(() => {});
     state.mcp = null;
   });
 
   pi.registerCommand("kota", {
-    description: "pi-kota commands (status/index/evict-blobs/reload-config/restart)",
+    description: "pi-kota commands (status/index/blobs/pin/unpin/pruning/evict-blobs/reload-config/restart)",
     handler: async (args, ctx: any) => {
       const cmd = (args || "").trim();
       if (!ctx.hasUI) return;
@@ -379,6 +734,10 @@ export default function (pi: ExtensionAPI) {
               state.repoRoot && state.indexedRepoRoot === normalizeRepoPath(state.repoRoot) ? "yes" : "no"
             }`,
             `config: global=${src?.global ?? "(none)"}, project=${src?.project ?? "(none)"}`,
+            `budgets: ${formatBudgets(state.config?.budgets)}`,
+            `timeouts: ${formatTimeouts(state.config?.kota.timeouts)}`,
+            `pins: ${state.pinnedToolCallIds.length ? state.pinnedToolCallIds.join(", ") : "(none)"}`,
+            `supervisor: ${state.supervisor.describe()}`,
             tools.length ? `mcp tools: ${tools.join(", ")}` : "mcp tools: (unknown/unavailable)",
             state.lastError ? `lastError: ${state.lastError}` : "",
           ]
@@ -392,12 +751,14 @@ export default function (pi: ExtensionAPI) {
       if (cmd === "reload-config") {
         await refreshConfig(ctx);
         ctx.ui.notify("Reloaded pi-kota config.", "info");
+        warnInvalidRedactPatterns(ctx);
         return;
       }
 
       if (cmd === "restart") {
         await state.mcp?.close().catch(() => {});
         state.mcp = null;
+        state.supervisor.reset();
         state.kotaStatus = "stopped";
         state.indexedRepoRoot = null;
         state.indexedAtCommit = null;
@@ -443,7 +804,58 @@ export default function (pi: ExtensionAPI) {
         return;
       }
 
-      if (cmd === "evict-blobs") {
+      if (cmd === "blobs" || cmd.startsWith("blobs ")) {
+        if (!state.config) await refreshConfig(ctx);
+        if (!state.config) throw new Error("pi-kota: config not loaded");
+
+        try {
+          const res = await runBlobsCommand(cmd.slice("blobs".length), { dir: state.config.blobs.dir, redactor });
+          ctx.ui.notify(res.text, res.level);
+        } catch (e: unknown) {
+          const msg = e instanceof Error ? e.message : String(e);
+          ctx.ui.notify(`Blob command failed: ${msg}`, "warning");
+        }
+        return;
+      }
+
+      const pinMatch = /^(pin|unpin)(?:\s+(.*))?$/.exec(cmd);
+      if (pinMatch) {
+        const res = runPinCommand(
+          pinMatch[1] as "pin" | "unpin",
+          pinMatch[2] ?? "",
+          state,
+          state.config?.prune.pinBudgetTokens,
+        );
+        ctx.ui.notify(res.text, res.level);
+        return;
+      }
+
+      const pruningMatch = /^pruning(?:\s+(--dry-run|\d+))?$/.exec(cmd);
+      if (pruningMatch) {
+        if (!state.config) await refreshConfig(ctx);
+        if (!state.config) throw new Error("pi-kota: config not loaded");
+
+        if (!state.config.prune.enabled) {
+          ctx.ui.notify("Context pruning is disabled (config.prune.enabled=false).", "info");
+          return;
+        }
+
+        const pruning = effectivePruning(ctx)!;
+        const view = { adaptive: state.config.prune.adaptive, percent: pruning.percent };
+
+        if (pruningMatch[1] === "--dry-run") {
+          const messages = nextContextMessages(ctx);
+          const plan = planPrune(messages, pruning.opts);
+          ctx.ui.notify(formatPruneDryRun(plan, messages, state.pruneLedger, pruning.effective, view), "info");
+          return;
+        }
+
+        const limit = pruningMatch[1] ? Number(pruningMatch[1]) : PRUNING_REPORT_LIMIT;
+        ctx.ui.notify(formatPruningReport(state.pruneLedger, pruning.effective, { ...view, limit }), "info");
+        return;
+      }
+
+      if (cmd === "evict-blobs" || cmd === "evict-blobs --repo") {
         if (!state.config) await refreshConfig(ctx);
         if (!state.config) throw new Error("pi-kota: config not loaded");
 
@@ -452,14 +864,16 @@ export default function (pi: ExtensionAPI) {
           return;
         }
 
+        const repoOnly = cmd.endsWith("--repo");
+        const repoRoot = state.repoRoot ?? ctx.cwd;
+
         try {
-          const res = await evictBlobs({
-            dir: state.config.blobs.dir,
-            maxAgeDays: state.config.blobs.maxAgeDays,
-            maxSizeBytes: state.config.blobs.maxSizeBytes,
-          });
+          const res = await evictBlobs(
+            blobEvictOptions(state.config.blobs, repoOnly ? blobNamespace(repoRoot) : undefined),
+          );
 
-          ctx.ui.notify(`Evicted ${res.removedCount} blobs (${res.removedBytes} bytes).`, "info");
+          const scope = repoOnly ? ` from ${repoRoot}` : "";
+          ctx.ui.notify(`Evicted ${res.removedCount} blobs${scope} (${res.removedBytes} bytes).`, "info");
         } catch (e: unknown) {
           const msg = e instanceof Error ? e.message : String(e);
           ctx.ui.notify(`Blob eviction failed: ${msg}`, "warning");
@@ -476,9 +890,9 @@ export default function (pi: ExtensionAPI) {
     label: "Kota: Index",
     description: "Ensure the current repository is indexed in KotaDB",
     parameters: kotaIndexSchema,
-    execute: async (_id, params, _signal, _onUpdate, ctx: any) => {
+    execute: async (_id, params, signal, _onUpdate, ctx: any) => {
       if (!state.config) await refreshConfig(ctx);
-      await ensureConnected(ctx);
+      await ensureConnected(ctx, { signal });
 
       if (!state.config) throw new Error("pi-kota: config not loaded");
 
@@ -504,8 +918,9 @@ export default function (pi: ExtensionAPI) {
         force: true,
         confirmIndex: false,
         confirm: async () => true,
+        signal,
         index: async () => {
-          const res = await callKotaToolStrict(ctx, "index", { path: targetPath });
+          const res = await callKotaToolStrict(ctx, "index", { path: targetPath }, { signal });
           output = res.text;
           state.indexedAtCommit = await getHeadCommit(pi, state.repoRoot ?? ctx.cwd);
         },
@@ -523,15 +938,28 @@ export default function (pi: ExtensionAPI) {
     label: "Kota: Search",
     description: "Search code via KotaDB (bounded output)",
     parameters: kotaSearchSchema,
-    execute: async (_id, params, _signal, _onUpdate, ctx: any) => {
+    execute: async (_id, params, signal, _onUpdate, ctx: any) => {
       if (!state.config) await refreshConfig(ctx);
       if (!state.config) throw new Error("pi-kota: config not loaded");
 
-      await ensureConnected(ctx);
-      await ensureRepoIndexed(ctx);
+      await ensureConnected(ctx, { signal });
+      await ensureRepoIndexed(ctx, signal);
 
-      const res = await callKotaToolStrict(ctx, "search", params);
-      return { content: [{ type: "text", text: res.text }], details: { truncatedToChars: 5000, ok: true } };
+      const res = await callKotaToolStrict(ctx, "search", params, { downshift: downshiftSearchArgs, signal });
+      const text = res.downshifts.length
+        ? `${res.text}\n\n${formatDownshiftNote(res.downshifts, res.budget, res.blobId)}`
+        : res.text;
+      return {
+        content: [{ type: "text", text }],
+        details: {
+          budget: res.budget,
+          ok: true,
+          ...(res.downshifts.length ? { downshifts: res.downshifts } : {}),
+          ...dataDetails(res.data),
+          ...blobDetails(res.blobId),
+          ...redactionDetails(res.redactions),
+        },
+      };
     },
   });
 
@@ -540,15 +968,24 @@ export default function (pi: ExtensionAPI) {
     label: "Kota: Deps",
     description: "Dependency graph query via KotaDB (bounded output)",
     parameters: kotaDepsSchema,
-    execute: async (_id, params, _signal, _onUpdate, ctx: any) => {
+    execute: async (_id, params, signal, _onUpdate, ctx: any) => {
       if (!state.config) await refreshConfig(ctx);
       if (!state.config) throw new Error("pi-kota: config not loaded");
 
-      await ensureConnected(ctx);
-      await ensureRepoIndexed(ctx);
+      await ensureConnected(ctx, { signal });
+      await ensureRepoIndexed(ctx, signal);
 
-      const res = await callKotaToolStrict(ctx, "deps", params);
-      return { content: [{ type: "text", text: res.text }], details: { truncatedToChars: 5000, ok: true } };
+      const res = await callKotaToolStrict(ctx, "deps", params, { signal });
+      return {
+        content: [{ type: "text", text: res.text }],
+        details: {
+          budget: res.budget,
+          ok: true,
+          ...dataDetails(res.data),
+          ...blobDetails(res.blobId),
+          ...redactionDetails(res.redactions),
+        },
+      };
     },
   });
 
@@ -557,15 +994,24 @@ export default function (pi: ExtensionAPI) {
     label: "Kota: Usages",
     description: "Symbol usages via KotaDB (bounded output)",
     parameters: kotaUsagesSchema,
-    execute: async (_id, params, _signal, _onUpdate, ctx: any) => {
+    execute: async (_id, params, signal, _onUpdate, ctx: any) => {
       if (!state.config) await refreshConfig(ctx);
       if (!state.config) throw new Error("pi-kota: config not loaded");
 
-      await ensureConnected(ctx);
-      await ensureRepoIndexed(ctx);
+      await ensureConnected(ctx, { signal });
+      await ensureRepoIndexed(ctx, signal);
 
-      const res = await callKotaToolStrict(ctx, "usages", params);
-      return { content: [{ type: "text", text: res.text }], details: { truncatedToChars: 5000, ok: true } };
+      const res = await callKotaToolStrict(ctx, "usages", params, { signal });
+      return {
+        content: [{ type: "text", text: res.text }],
+        details: {
+          budget: res.budget,
+          ok: true,
+          ...dataDetails(res.data),
+          ...blobDetails(res.blobId),
+          ...redactionDetails(res.redactions),
+        },
+      };
     },
   });
 
@@ -574,17 +1020,24 @@ export default function (pi: ExtensionAPI) {
     label: "Kota: Impact",
     description: "Impact analysis via KotaDB (bounded output)",
     parameters: kotaImpactSchema,
-    execute: async (_id, params, _signal, _onUpdate, ctx: any) => {
+    execute: async (_id, params, signal, _onUpdate, ctx: any) => {
       if (!state.config) await refreshConfig(ctx);
       if (!state.config) throw new Error("pi-kota: config not loaded");
 
-      await ensureConnected(ctx);
-      await ensureRepoIndexed(ctx);
+      await ensureConnected(ctx, { signal });
+      await ensureRepoIndexed(ctx, signal);
 
-      const res = await callKotaToolStrict(ctx, "impact", params);
+      const res = await callKotaToolStrict(ctx, "impact", params, { signal });
       return {
         content: [{ type: "text", text: res.text }],
-        details: { truncatedToChars: 5000, pinned: true, ok: true },
+        details: {
+          budget: res.budget,
+          pinned: true,
+          ok: true,
+          ...dataDetails(res.data),
+          ...blobDetails(res.blobId),
+          ...redactionDetails(res.redactions),
+        },
       };
     },
   });
@@ -594,15 +1047,87 @@ export default function (pi: ExtensionAPI) {
     label: "Kota: Task Context",
     description: "Summarize dependencies/impact for a small set of files (bounded output)",
     parameters: kotaTaskContextSchema,
+    execute: async (_id, params, signal, _onUpdate, ctx: any) => {
+      if (!state.config) await refreshConfig(ctx);
+      if (!state.config) throw new Error("pi-kota: config not loaded");
+
+      await ensureConnected(ctx, { signal });
+      await ensureRepoIndexed(ctx, signal);
+
+      const res = await callKotaToolStrict(ctx, "task_context", params, { signal });
+      return {
+        content: [{ type: "text", text: res.text }],
+        details: {
+          budget: res.budget,
+          ok: true,
+          ...dataDetails(res.data),
+          ...blobDetails(res.blobId),
+          ...redactionDetails(res.redactions),
+        },
+      };
+    },
+  });
+
+  pi.registerTool({
+    name: "kota_blob_read",
+    label: "Kota: Blob Read",
+    description:
+      "Read a bounded slice of a cached full output by blobId (line range, byte range, or regex pattern)",
+    parameters: kotaBlobReadSchema,
     execute: async (_id, params, _signal, _onUpdate, ctx: any) => {
       if (!state.config) await refreshConfig(ctx);
       if (!state.config) throw new Error("pi-kota: config not loaded");
 
-      await ensureConnected(ctx);
-      await ensureRepoIndexed(ctx);
+      const p = params as {
+        blob_id: string;
+        start_line?: number;
+        end_line?: number;
+        offset?: number;
+        length?: number;
+        pattern?: string;
+      };
 
-      const res = await callKotaToolStrict(ctx, "task_context", params);
-      return { content: [{ type: "text", text: res.text }], details: { truncatedToChars: 5000, ok: true } };
+      const blob = await readBlob({
+        dir: state.config.blobs.dir,
+        blobId: p.blob_id,
+        preferDir: repoBlobDir(state.config.blobs.dir, state.repoRoot),
+      });
+      const slice = sliceBlob(blob.content, {
+        startLine: p.start_line,
+        endLine: p.end_line,
+        offset: p.offset,
+        length: p.length,
+        pattern: p.pattern,
+        maxChars: BLOB_READ_MAX_CHARS,
+      });
+
+      // Blobs written before redaction was enabled may still hold secrets.
+      const redacted = redactText(slice.text, redactor);
+      const lines = [`[pi-kota] blob ${blob.blobId.slice(0, 12)}: ${slice.range}`, redacted.text];
+      if (slice.next) {
+        const nextArgs = [`blob_id="${blob.blobId}"`];
+        if (slice.next.startLine !== undefined) nextArgs.push(`start_line=${slice.next.startLine}`);
+        if (p.end_line !== undefined && slice.mode !== "bytes") nextArgs.push(`end_line=${p.end_line}`);
+        if (slice.next.offset !== undefined) nextArgs.push(`offset=${slice.next.offset}`);
+        if (slice.next.length !== undefined) nextArgs.push(`length=${slice.next.length}`);
+        if (slice.mode === "grep" && p.pattern) nextArgs.push(`pattern=${JSON.stringify(p.pattern)}`);
+        lines.push(`[pi-kota] More available. Next page: kota_blob_read(${nextArgs.join(", ")})`);
+      } else {
+        lines.push("[pi-kota] End of requested range.");
+      }
+
+      return {
+        content: [{ type: "text", text: lines.join("\n") }],
+        details: {
+          blobId: blob.blobId,
+          mode: slice.mode,
+          totalLines: slice.totalLines,
+          totalBytes: slice.totalBytes,
+          next: slice.next ?? null,
+          ok: true,
+          ...redactionDetails(redacted.byRule),
+        },
+      };
     },
   });
 }
@@ -1,3 +1,5 @@
+import { raceAbort } from "./timeouts.js";
+
 export async function ensureIndexed(opts: {
   state: { indexed: boolean; indexPromise?: Promise<void> | null };
   confirmIndex: boolean;
@@ -5,11 +7,13 @@ export async function ensureIndexed(opts: {
   index: () => Promise<void>;
   /** If true, run indexing even if state.indexed is already true. */
   force?: boolean;
+  /** Stops this caller waiting on a run started by someone else; `index` should honour it for its own run. */
+  signal?: AbortSignal;
 }): Promise<void> {
   // If an indexing run is already in-flight, always await it (even if state.indexed is already true).
   // This matters for forced re-indexing (state.indexed=true, indexPromise!=null).
   if (opts.state.indexPromise) {
-    await opts.state.indexPromise;
+    await raceAbort(opts.state.indexPromise, opts.signal, () => new Error("pi-kota: indexing cancelled"));
     return;
   }
 
@@ -1,5 +1,14 @@
 import { Client } from "@modelcontextprotocol/sdk/client/index.js";
 import { StdioClientTransport } from "@modelcontextprotocol/sdk/client/stdio.js";
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+
+/** Per-request options for `KotaMcpClient.callTool`. */
+export interface KotaCallOptions {
+  /** Aborting sends `notifications/cancelled` to KotaDB and rejects the call. */
+  signal?: AbortSignal;
+  /** Overrides the MCP SDK's default request timeout. */
+  timeoutMs?: number;
+}
 
 export function toTextContent(content: unknown[] | undefined): string {
   if (!Array.isArray(content)) return "";
@@ -44,7 +53,16 @@ export class KotaMcpClient {
   private client: Client | null = null;
   private readonly connectTimeoutMs: number;
 
-  constructor(private readonly stdio: { command: string; args: string[]; cwd: string; connectTimeoutMs?: number }) {
+  constructor(
+    private readonly stdio: {
+      command: string;
+      args: string[];
+      cwd: string;
+      connectTimeoutMs?: number;
+      /** Called once if the subprocess exits or its pipes close while connected (not on `close()`). */
+      onExit?: () => void;
+    },
+  ) {
     this.connectTimeoutMs = stdio.connectTimeoutMs ?? 10000;
   }
 
@@ -102,6 +120,11 @@ export class KotaMcpClient {
     try {
       await Promise.race([client.connect(transport), timeoutPromise]);
       this.client = client;
+      client.onclose = () => {
+        if (this.client !== client) return;
+        this.client = null;
+        this.stdio.onExit?.();
+      };
     } catch (error) {
       if (didTimeout || (error instanceof Error && error.message === timeoutErrorMessage)) {
         throw timeoutError;
@@ -130,9 +153,10 @@ export class KotaMcpClient {
   }
 
   async close(): Promise<void> {
-    if (!this.client) return;
-    await this.client.close();
+    const client = this.client;
+    if (!client) return;
     this.client = null;
+    await client.close();
   }
 
   async listTools(): Promise<string[]> {
@@ -141,13 +165,32 @@ export class KotaMcpClient {
     return (res.tools ?? []).map((t) => String(t.name));
   }
 
-  async callTool(name: string, args: unknown): Promise<{ content: unknown[]; raw: unknown }> {
+  async callTool(
+    name: string,
+    args: unknown,
+    opts: KotaCallOptions = {},
+  ): Promise<{ content: unknown[]; raw: unknown }> {
     if (!this.client) throw new Error("MCP client not connected");
-    const raw = await this.client.callTool({
-      name,
-      arguments:
-        typeof args === "object" && args !== null ? (args as Record<string, unknown>) : {},
-    });
+    let raw;
+    try {
+      raw = await this.client.callTool(
+        {
+          name,
+          arguments:
+            typeof args === "object" && args !== null ? (args as Record<string, unknown>) : {},
+        },
+        undefined,
+        { signal: opts.signal, timeout: opts.timeoutMs },
+      );
+    } catch (error) {
+      // The SDK reports both aborts and timeouts as RequestTimeout; tell them apart for the agent.
+      if (opts.signal?.aborted) throw new Error(`pi-kota: ${name} cancelled`);
+      if (error instanceof McpError && error.code === ErrorCode.RequestTimeout) {
+        const limit = opts.timeoutMs !== undefined ? `within ${opts.timeoutMs}ms` : "in time";
+        throw new Error(`pi-kota: KotaDB did not answer ${name} ${limit}`);
+      }
+      throw error;
+    }
     return { content: (raw?.content as unknown[] | undefined) ?? [], raw };
   }
 }
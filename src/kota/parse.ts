@@ -0,0 +1,361 @@
+import { truncateChars } from "../text.js";
+import { toTextContent } from "./mcp.js";
+
+export interface FileRef {
+  path: string;
+  line?: number;
+  snippet?: string;
+  score?: number;
+}
+
+export interface DepEdge {
+  from: string;
+  to: string;
+}
+
+export interface SearchResult {
+  kind: "search";
+  files: FileRef[];
+  total?: number;
+}
+
+export interface DepsResult {
+  kind: "deps";
+  file?: string;
+  dependencies: string[];
+  dependents: string[];
+  edges: DepEdge[];
+}
+
+export interface UsagesResult {
+  kind: "usages";
+  symbol?: string;
+  usages: FileRef[];
+}
+
+export interface ImpactResult {
+  kind: "impact";
+  risk?: string;
+  summary?: string;
+  files: string[];
+  tests: string[];
+  recommendations: string[];
+}
+
+export interface TaskContextResult {
+  kind: "task_context";
+  files: string[];
+  dependencies: string[];
+  dependents: string[];
+  tests: string[];
+  symbols: string[];
+}
+
+export type KotaResult = SearchResult | DepsResult | UsagesResult | ImpactResult | TaskContextResult;
+
+/** Cap list sizes so structured `details` never outgrow the text they summarize. */
+const MAX_ITEMS = 200;
+
+type Rec = Record<string, unknown>;
+
+function isRecord(v: unknown): v is Rec {
+  return typeof v === "object" && v !== null && !Array.isArray(v);
+}
+
+function pickString(obj: Rec, keys: string[]): string | undefined {
+  for (const k of keys) {
+    const v = obj[k];
+    if (typeof v === "string" && v.length > 0) return v;
+  }
+  return undefined;
+}
+
+function pickNumber(obj: Rec, keys: string[]): number | undefined {
+  for (const k of keys) {
+    const v = obj[k];
+    if (typeof v === "number" && Number.isFinite(v)) return v;
+  }
+  return undefined;
+}
+
+function pickArray(obj: Rec, keys: string[]): unknown[] | undefined {
+  for (const k of keys) {
+    const v = obj[k];
+    if (Array.isArray(v)) return v;
+  }
+  return undefined;
+}
+
+const PATH_KEYS = ["path", "file", "filePath", "file_path", "filename"];
+const LINE_KEYS = ["line", "lineNumber", "line_number", "startLine", "start_line"];
+const SNIPPET_KEYS = ["snippet", "content", "text", "context", "preview"];
+
+function toFileRef(item: unknown): FileRef | null {
+  if (typeof item === "string") return item ? { path: item } : null;
+  if (!isRecord(item)) return null;
+
+  const path = pickString(item, PATH_KEYS);
+  if (!path) return null;
+
+  const ref: FileRef = { path };
+  const line = pickNumber(item, LINE_KEYS);
+  if (line !== undefined) ref.line = line;
+  const snippet = pickString(item, SNIPPET_KEYS);
+  if (snippet !== undefined) ref.snippet = snippet;
+  const score = pickNumber(item, ["score", "rank"]);
+  if (score !== undefined) ref.score = score;
+  return ref;
+}
+
+function toPath(item: unknown): string | null {
+  if (typeof item === "string") return item || null;
+  if (isRecord(item)) return pickString(item, [...PATH_KEYS, "name"]) ?? null;
+  return null;
+}
+
+function fileRefs(items: unknown[]): FileRef[] {
+  return items
+    .map(toFileRef)
+    .filter((r): r is FileRef => r !== null)
+    .slice(0, MAX_ITEMS);
+}
+
+function paths(items: unknown[] | undefined): string[] {
+  return (items ?? [])
+    .map(toPath)
+    .filter((p): p is string => p !== null)
+    .slice(0, MAX_ITEMS);
+}
+
+/**
+ * KotaDB answers with JSON either as `structuredContent` or as a JSON text block.
+ * Returns undefined when neither is present (plain-text answers).
+ */
+export function extractPayload(content: unknown[], raw: unknown): unknown {
+  if (isRecord(raw) && raw.structuredContent !== undefined) return raw.structuredContent;
+
+  const text = toTextContent(content).trim();
+  if (!text.startsWith("{") && !text.startsWith("[")) return undefined;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+}
+
+export function parseSearch(payload: unknown): SearchResult | null {
+  let items: unknown[] | undefined;
+  let total: number | undefined;
+
+  if (Array.isArray(payload)) {
+    items = payload;
+  } else if (isRecord(payload)) {
+    items = pickArray(payload, ["results", "matches", "files", "items"]);
+    // Unified search groups results by scope: { results: { code: [...], symbols: [...] } }.
+    if (!items && isRecord(payload.results)) {
+      items = Object.values(payload.results).flatMap((v) => (Array.isArray(v) ? v : []));
+    }
+    total = pickNumber(payload, ["total", "totalCount", "total_count", "count"]);
+  }
+  if (!items) return null;
+
+  const result: SearchResult = { kind: "search", files: fileRefs(items) };
+  if (total !== undefined) result.total = total;
+  return result;
+}
+
+export function parseDeps(payload: unknown): DepsResult | null {
+  if (!isRecord(payload)) return null;
+
+  const depItems = pickArray(payload, ["dependencies", "imports", "deps"]);
+  const dependentItems = pickArray(payload, ["dependents", "importedBy", "imported_by"]);
+  if (!depItems && !dependentItems) return null;
+
+  const file = pickString(payload, ["file", "file_path", "filePath", "path"]);
+  const dependencies = paths(depItems);
+  const dependents = paths(dependentItems);
+  const self = file ?? "(target)";
+
+  return {
+    kind: "deps",
+    ...(file ? { file } : {}),
+    dependencies,
+    dependents,
+    edges: [
+      ...dependencies.map((to) => ({ from: self, to })),
+      ...dependents.map((from) => ({ from, to: self })),
+    ],
+  };
+}
+
+export function parseUsages(payload: unknown): UsagesResult | null {
+  let items: unknown[] | undefined;
+  let symbol: string | undefined;
+
+  if (Array.isArray(payload)) {
+    items = payload;
+  } else if (isRecord(payload)) {
+    items = pickArray(payload, ["usages", "references", "results", "matches"]);
+    symbol = pickString(payload, ["symbol", "name"]);
+  }
+  if (!items) return null;
+
+  return { kind: "usages", ...(symbol ? { symbol } : {}), usages: fileRefs(items) };
+}
+
+export function parseImpact(payload: unknown): ImpactResult | null {
+  if (!isRecord(payload)) return null;
+
+  const risk = pickString(payload, ["risk_level", "riskLevel", "risk"]);
+  const summary = pickString(payload, ["summary", "description"]);
+  const files = paths(pickArray(payload, ["affected_files", "affectedFiles", "impacted_files", "impactedFiles"]));
+  const tests = paths(pickArray(payload, ["test_files", "testFiles", "recommended_tests", "tests"]));
+  const recommendations = (pickArray(payload, ["recommendations", "suggestions"]) ?? [])
+    .map((r) => (typeof r === "string" ? r : isRecord(r) ? pickString(r, ["text", "message"]) : undefined))
+    .filter((r): r is string => !!r)
+    .slice(0, MAX_ITEMS);
+
+  if (!risk && !summary && files.length === 0 && tests.length === 0 && recommendations.length === 0) return null;
+
+  return {
+    kind: "impact",
+    ...(risk ? { risk } : {}),
+    ...(summary ? { summary } : {}),
+    files,
+    tests,
+    recommendations,
+  };
+}
+
+export function parseTaskContext(payload: unknown): TaskContextResult | null {
+  if (!isRecord(payload)) return null;
+
+  const result: TaskContextResult = {
+    kind: "task_context",
+    files: paths(pickArray(payload, ["files", "target_files", "targetFiles"])),
+    dependencies: paths(pickArray(payload, ["dependencies", "imports"])),
+    dependents: paths(pickArray(payload, ["dependents", "impacted_files", "impactedFiles"])),
+    tests: paths(pickArray(payload, ["tests", "test_files", "testFiles"])),
+    symbols: paths(pickArray(payload, ["symbols"])),
+  };
+
+  const empty = [result.files, result.dependencies, result.dependents, result.tests, result.symbols].every(
+    (list) => list.length === 0,
+  );
+  return empty ? null : result;
+}
+
+const PARSERS: Record<string, (payload: unknown) => KotaResult | null> = {
+  search: parseSearch,
+  deps: parseDeps,
+  usages: parseUsages,
+  impact: parseImpact,
+  task_context: parseTaskContext,
+};
+
+/** Parse a KotaDB tool response into a typed result, or null when the shape is unknown. */
+export function parseKotaResponse(toolName: string, content: unknown[], raw: unknown): KotaResult | null {
+  const parser = PARSERS[toolName];
+  if (!parser) return null;
+
+  const payload = extractPayload(content, raw);
+  if (payload === undefined) return null;
+
+  try {
+    return parser(payload);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Keep snippet text in `details.data` within `maxChars` overall (the budget the rendered text had),
+ * so up to MAX_ITEMS full snippets never ride along unbounded. Later refs keep their path only.
+ */
+export function limitSnippets(result: KotaResult, maxChars: number): KotaResult {
+  if (result.kind !== "search" && result.kind !== "usages") return result;
+
+  let left = maxChars;
+  const bound = (refs: FileRef[]): FileRef[] =>
+    refs.map(({ snippet, ...ref }) => {
+      if (snippet === undefined) return ref;
+      const kept = truncateChars(snippet, left);
+      left -= kept.length;
+      return kept ? { ...ref, snippet: kept } : ref;
+    });
+
+  if (result.kind === "search") return { ...result, files: bound(result.files) };
+  return { ...result, usages: bound(result.usages) };
+}
+
+function snippetLines(snippet: string): string[] {
+  const lines = snippet.split("\n").map((l) => l.trimEnd());
+  while (lines.length && !lines[0].trim()) lines.shift();
+  while (lines.length && !lines[lines.length - 1].trim()) lines.pop();
+  return lines;
+}
+
+/** `path:line  code` for one-line snippets; multi-line snippets (`output: "snippet"`) follow, indented. */
+function formatRef(ref: FileRef): string {
+  const loc = ref.line !== undefined ? `${ref.path}:${ref.line}` : ref.path;
+  const lines = ref.snippet ? snippetLines(ref.snippet) : [];
+  if (lines.length === 0) return loc;
+  if (lines.length === 1) return `${loc}  ${lines[0].trim()}`;
+  return [loc, ...lines.map((l) => `  ${l}`)].join("\n");
+}
+
+/** Header plus refs; multi-line refs are blank-line separated so truncation keeps whole records. */
+function formatRefs(header: string, refs: FileRef[]): string {
+  const records = refs.map(formatRef);
+  const sep = records.some((r) => r.includes("\n")) ? "\n\n" : "\n";
+  return [header, ...records].join(sep);
+}
+
+function section(title: string, items: string[], prefix = "- "): string[] {
+  if (items.length === 0) return [];
+  return [`${title} (${items.length}):`, ...items.map((i) => `${prefix}${i}`)];
+}
+
+/** Line-per-record text for a parsed result; snippets keep their full body for the budget to bound. */
+export function renderKotaResult(result: KotaResult): string {
+  switch (result.kind) {
+    case "search": {
+      const shown = result.files.length;
+      const header =
+        result.total !== undefined && result.total > shown
+          ? `${shown} of ${result.total} results`
+          : `${shown} result${shown === 1 ? "" : "s"}`;
+      return formatRefs(header, result.files);
+    }
+    case "deps":
+      return [
+        `deps: ${result.file ?? "(target)"}`,
+        ...section("imports", result.dependencies, "→ "),
+        ...section("imported by", result.dependents, "← "),
+        ...(result.edges.length === 0 ? ["(no dependencies found)"] : []),
+      ].join("\n");
+    case "usages":
+      return formatRefs(
+        `${result.symbol ?? "symbol"}: ${result.usages.length} usage${result.usages.length === 1 ? "" : "s"}`,
+        result.usages,
+      );
+    case "impact":
+      return [
+        result.risk ? `risk: ${result.risk}` : "",
+        result.summary ?? "",
+        ...section("affected files", result.files),
+        ...section("tests to run", result.tests),
+        ...section("recommendations", result.recommendations),
+      ]
+        .filter(Boolean)
+        .join("\n");
+    case "task_context":
+      return [
+        ...section("files", result.files),
+        ...section("dependencies", result.dependencies),
+        ...section("dependents", result.dependents),
+        ...section("tests", result.tests),
+        ...section("symbols", result.symbols),
+      ].join("\n");
+  }
+}
@@ -6,10 +6,22 @@ export const kotaIndexSchema = Type.Object({
 
 export const kotaSearchSchema = Type.Object({
   query: Type.String({ description: "Search query" }),
+  scope: Type.Optional(
+    Type.Union([Type.Literal("code"), Type.Literal("symbols"), Type.Literal("files")], {
+      description: "What to search: code (default), symbol definitions, or file paths",
+    }),
+  ),
   limit: Type.Optional(Type.Number({ minimum: 1, maximum: 50 })),
   output: Type.Optional(
     Type.Union([Type.Literal("paths"), Type.Literal("compact"), Type.Literal("snippet")]),
   ),
+  context_lines: Type.Optional(
+    Type.Number({ minimum: 0, maximum: 5, description: "Lines of context around snippet matches" }),
+  ),
+  include: Type.Optional(Type.Array(Type.String(), { description: 'Path globs to search, e.g. ["src/**"]' })),
+  exclude: Type.Optional(Type.Array(Type.String(), { description: 'Path globs to skip, e.g. ["**/generated/**"]' })),
+  extensions: Type.Optional(Type.Array(Type.String(), { description: 'File extensions, e.g. ["ts", "tsx"]' })),
+  exclude_tests: Type.Optional(Type.Boolean({ description: "Skip test files, specs and fixtures" })),
 });
 
 export const kotaDepsSchema = Type.Object({
@@ -46,3 +58,14 @@ export const kotaTaskContextSchema = Type.Object({
   include_symbols: Type.Optional(Type.Boolean()),
   max_impacted_files: Type.Optional(Type.Number({ minimum: 1, maximum: 50 })),
 });
+
+export const kotaBlobReadSchema = Type.Object({
+  blob_id: Type.String({ description: "blobId from a truncated kota_* result" }),
+  start_line: Type.Optional(Type.Number({ minimum: 1, description: "First line (1-based)" })),
+  end_line: Type.Optional(Type.Number({ minimum: 1, description: "Last line (inclusive)" })),
+  offset: Type.Optional(Type.Number({ minimum: 0, description: "Byte offset (byte mode)" })),
+  length: Type.Optional(Type.Number({ minimum: 1, description: "Byte length (byte mode)" })),
+  pattern: Type.Optional(
+    Type.String({ description: "Regex; return only matching lines (over-long or nested-quantifier regexes: literal)" }),
+  ),
+});
@@ -0,0 +1,93 @@
+/** When and how often a crashed KotaDB subprocess is restarted. */
+export interface RestartPolicy {
+  /** Failures (crashes or failed starts) within `windowMs` that open the circuit breaker. */
+  maxFailures: number;
+  windowMs: number;
+  /** First reconnect delay; doubles with each further failure in the window, up to `maxDelayMs`. */
+  baseDelayMs: number;
+  maxDelayMs: number;
+  /** How long the circuit stays open before one trial reconnect is allowed. */
+  cooldownMs: number;
+}
+
+export const DEFAULT_RESTART_POLICY: RestartPolicy = {
+  maxFailures: 3,
+  windowMs: 60_000,
+  baseDelayMs: 500,
+  maxDelayMs: 10_000,
+  cooldownMs: 60_000,
+};
+
+export type CircuitState = "closed" | "open" | "half-open";
+
+/** Read-only KotaDB tools that are safe to re-issue once after a reconnect. */
+const IDEMPOTENT_TOOLS = new Set(["search", "deps", "usages", "impact", "task_context"]);
+
+export function isIdempotentKotaTool(toolName: string): boolean {
+  return IDEMPOTENT_TOOLS.has(toolName);
+}
+
+/**
+ * Crash bookkeeping for the KotaDB subprocess: exponential backoff between restarts and a circuit
+ * breaker that stops reconnecting after `maxFailures` failures within `windowMs`.
+ */
+export class KotaSupervisor {
+  private failures: number[] = [];
+  private openedAt: number | null = null;
+
+  constructor(
+    private policy: RestartPolicy = DEFAULT_RESTART_POLICY,
+    private readonly now: () => number = Date.now,
+  ) {}
+
+  setPolicy(policy: RestartPolicy): void {
+    this.policy = policy;
+  }
+
+  private recentFailures(): number {
+    const since = this.now() - this.policy.windowMs;
+    this.failures = this.failures.filter((t) => t > since);
+    return this.failures.length;
+  }
+
+  get circuit(): CircuitState {
+    if (this.openedAt === null) return "closed";
+    return this.now() - this.openedAt >= this.policy.cooldownMs ? "half-open" : "open";
+  }
+
+  /** Milliseconds until the circuit allows a trial reconnect (0 unless open). */
+  retryInMs(): number {
+    if (this.openedAt === null) return 0;
+    return Math.max(0, this.openedAt + this.policy.cooldownMs - this.now());
+  }
+
+  /** Delay before the next connect attempt: 0 after a clean start, then base × 2^(failures − 1). */
+  backoffMs(): number {
+    const n = this.recentFailures();
+    if (n === 0) return 0;
+    return Math.min(this.policy.maxDelayMs, this.policy.baseDelayMs * 2 ** (n - 1));
+  }
+
+  recordFailure(): void {
+    this.failures.push(this.now());
+    // A failed trial reconnect re-opens the circuit straight away.
+    if (this.openedAt !== null || this.recentFailures() >= this.policy.maxFailures) this.openedAt = this.now();
+  }
+
+  /** A successful connect closes a half-open circuit; the failure window still governs backoff. */
+  recordSuccess(): void {
+    this.openedAt = null;
+  }
+
+  reset(): void {
+    this.failures = [];
+    this.openedAt = null;
+  }
+
+  describe(): string {
+    const circuit = this.circuit;
+    const failures = `${this.recentFailures()} failure(s) in the last ${Math.round(this.policy.windowMs / 1000)}s`;
+    if (circuit === "open") return `circuit open (${failures}; retry in ${Math.ceil(this.retryInMs() / 1000)}s)`;
+    return `circuit ${circuit} (${failures})`;
+  }
+}
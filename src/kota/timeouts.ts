@@ -0,0 +1,53 @@
+export const TIMEOUT_KEYS = ["index", "search", "deps", "usages", "impact", "task_context"] as const;
+
+export type TimeoutKey = (typeof TIMEOUT_KEYS)[number];
+
+/** Milliseconds a single KotaDB call may take before it is abandoned, per tool. */
+export type KotaToolTimeouts = Record<TimeoutKey, number>;
+
+export const DEFAULT_TOOL_TIMEOUTS: KotaToolTimeouts = {
+  index: 600_000,
+  search: 30_000,
+  deps: 30_000,
+  usages: 30_000,
+  impact: 60_000,
+  task_context: 60_000,
+};
+
+/** Used for kota calls without a timeout of their own. */
+export const FALLBACK_TIMEOUT_MS = 60_000;
+
+export function isTimeoutKey(key: string): key is TimeoutKey {
+  return (TIMEOUT_KEYS as readonly string[]).includes(key);
+}
+
+/** Configured timeout for `toolName`, tolerating configs that predate `kota.timeouts`. */
+export function resolveToolTimeout(timeouts: Partial<KotaToolTimeouts> | undefined, toolName: string): number {
+  if (!isTimeoutKey(toolName)) return FALLBACK_TIMEOUT_MS;
+  return timeouts?.[toolName] ?? DEFAULT_TOOL_TIMEOUTS[toolName];
+}
+
+export function formatTimeouts(timeouts: Partial<KotaToolTimeouts> | undefined): string {
+  return TIMEOUT_KEYS.map((key) => `${key}=${Math.round(resolveToolTimeout(timeouts, key) / 1000)}s`).join(", ");
+}
+
+/** Settle with `promise`, or reject with `reason()` as soon as `signal` aborts (the work itself is not stopped). */
+export function raceAbort<T>(promise: Promise<T>, signal: AbortSignal | undefined, reason: () => Error): Promise<T> {
+  if (!signal) return promise;
+  if (signal.aborted) return Promise.reject(reason());
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(reason());
+    signal.addEventListener("abort", onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener("abort", onAbort));
+  });
+}
+
+/** Wait `ms`, rejecting with `reason()` (and clearing the timer) if `signal` aborts first. */
+export function abortableDelay(ms: number, signal: AbortSignal | undefined, reason: () => Error): Promise<void> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const delay = new Promise<void>((resolve) => {
+    timer = setTimeout(resolve, ms);
+  });
+  return raceAbort(delay, signal, reason).finally(() => clearTimeout(timer));
+}
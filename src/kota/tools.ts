@@ -1,5 +1,10 @@
+import { ErrorCode } from "@modelcontextprotocol/sdk/types.js";
+
 import { truncateChars } from "../text.js";
-import { toTextContent } from "./mcp.js";
+import { budgetChars, fitsBudget, type OutputBudget } from "../tokens.js";
+import { truncateOutput } from "../truncate.js";
+import { type KotaCallOptions, toTextContent } from "./mcp.js";
+import { type KotaResult, limitSnippets, parseKotaResponse, renderKotaResult } from "./parse.js";
 
 const TOOL_NAME_MAP: Record<string, string> = {
   index: "index_repository",
@@ -13,6 +18,62 @@ export function resolveMcpToolName(toolName: string): string {
   return TOOL_NAME_MAP[toolName] ?? toolName;
 }
 
+export const SEARCH_MAX_LIMIT = 50;
+export const SEARCH_MAX_CONTEXT_LINES = 5;
+const SEARCH_MAX_GLOBS = 20;
+
+/** Globs appended to `filters.exclude` when `exclude_tests` is set. */
+export const TEST_EXCLUDE_GLOBS = [
+  "**/*.test.*",
+  "**/*.spec.*",
+  "**/__tests__/**",
+  "**/__mocks__/**",
+  "**/test/**",
+  "**/tests/**",
+  "**/fixtures/**",
+];
+
+function clampInt(value: unknown, min: number, max: number): number | undefined {
+  if (typeof value !== "number" || !Number.isFinite(value)) return undefined;
+  return Math.min(max, Math.max(min, Math.floor(value)));
+}
+
+function stringList(value: unknown): string[] {
+  if (!Array.isArray(value)) return [];
+  return value.filter((v): v is string => typeof v === "string" && v.trim().length > 0).map((v) => v.trim());
+}
+
+/**
+ * Map kota_search params onto KotaDB's search arguments. Caps are enforced here as well as in the
+ * schema so callers that bypass validation (auto context, tests) still get bounded requests.
+ */
+export function prepareSearchArgs(args: unknown): Record<string, unknown> {
+  const a = typeof args === "object" && args !== null ? (args as Record<string, unknown>) : {};
+  const out: Record<string, unknown> = { query: a.query };
+
+  if (typeof a.scope === "string") out.scope = [a.scope];
+  if (typeof a.output === "string") out.output = a.output;
+
+  const limit = clampInt(a.limit, 1, SEARCH_MAX_LIMIT);
+  if (limit !== undefined) out.limit = limit;
+
+  const contextLines = clampInt(a.context_lines, 0, SEARCH_MAX_CONTEXT_LINES);
+  if (contextLines !== undefined) out.context_lines = contextLines;
+
+  const include = stringList(a.include).slice(0, SEARCH_MAX_GLOBS);
+  const exclude = stringList(a.exclude).slice(0, SEARCH_MAX_GLOBS);
+  if (a.exclude_tests === true) exclude.push(...TEST_EXCLUDE_GLOBS.filter((g) => !exclude.includes(g)));
+  const extensions = stringList(a.extensions).map((ext) => (ext.startsWith(".") ? ext : `.${ext}`));
+
+  const filters: Record<string, unknown> = {};
+  if (include.length) filters.glob = include;
+  if (exclude.length) filters.exclude = exclude;
+  if (extensions.length) filters.extensions = extensions;
+  if (Object.keys(filters).length) out.filters = filters;
+
+  return out;
+}
+
 export function prepareMcpArgs(toolName: string, args: unknown): unknown {
   if (toolName === "index" && typeof args === "object" && args !== null) {
     const maybePath = (args as { path?: unknown }).path;
@@ -20,9 +81,58 @@ export function prepareMcpArgs(toolName: string, args: unknown): unknown {
       return { repository: maybePath, localPath: maybePath };
     }
   }
+  if (toolName === "search" && typeof args === "object" && args !== null) {
+    return prepareSearchArgs(args);
+  }
   return args;
 }
 
+export interface Downshift {
+  args: unknown;
+  /** Human-readable step, e.g. "output snippet → compact". */
+  note: string;
+}
+
+/** Assumed KotaDB search limit when the caller didn't pass one (design doc default). */
+export const SEARCH_DEFAULT_LIMIT = 15;
+const MAX_DOWNSHIFTS = 4;
+
+/**
+ * Next-cheaper kota_search request: fewer snippet context lines, then snippet → compact → paths,
+ * then halve `limit`. Returns null once nothing cheaper is left.
+ */
+export function downshiftSearchArgs(args: unknown): Downshift | null {
+  const a = typeof args === "object" && args !== null ? (args as Record<string, unknown>) : {};
+  const output = a.output ?? "compact";
+
+  const contextLines = clampInt(a.context_lines, 0, SEARCH_MAX_CONTEXT_LINES);
+  if (output === "snippet" && contextLines !== undefined && contextLines > 1) {
+    const next = Math.floor(contextLines / 2);
+    return { args: { ...a, context_lines: next }, note: `context_lines ${contextLines} → ${next}` };
+  }
+  if (output === "snippet") return { args: { ...a, output: "compact" }, note: "output snippet → compact" };
+  if (output === "compact") return { args: { ...a, output: "paths" }, note: "output compact → paths" };
+
+  const limit = clampInt(a.limit, 1, SEARCH_MAX_LIMIT) ?? SEARCH_DEFAULT_LIMIT;
+  if (limit <= 1) return null;
+  const next = Math.max(1, Math.floor(limit / 2));
+  return { args: { ...a, limit: next }, note: `limit ${limit} → ${next}` };
+}
+
+function describeBudget(budget: OutputBudget): string {
+  if (budget.maxTokens !== undefined && budget.maxTokens > 0) return `~${budget.maxTokens}-token`;
+  return `${budget.maxChars ?? 0}-char`;
+}
+
+export function formatDownshiftNote(steps: string[], budget: OutputBudget, blobId?: string): string {
+  const full = blobId ? ` The original output is in kota_blob_read(blob_id="${blobId}").` : "";
+  return (
+    `[pi-kota] Downshifted to fit the ${describeBudget(budget)} output budget (${steps.join(", ")}). ` +
+    "Narrow the query, or ask for a richer output/higher limit explicitly if you need more." +
+    full
+  );
+}
+
 export function formatToolError(toolName: string, availableTools: string[], err: unknown): string {
   const message = err instanceof Error ? err.message : String(err);
   const list = availableTools.length ? availableTools.join(", ") : "(none)";
@@ -41,7 +151,9 @@ function isTransportError(e: unknown): boolean {
       : undefined;
   const msg = e instanceof Error ? e.message : String(e);
 
+  // The SDK rejects pending requests with ConnectionClosed when the subprocess exits mid-call.
   return (
+    code === ErrorCode.ConnectionClosed ||
     code === "EPIPE" ||
     code === "ECONNRESET" ||
     code === "ERR_STREAM_DESTROYED" ||
@@ -54,23 +166,81 @@ export async function callBudgeted(opts: {
   toolName: string;
   args: unknown;
   maxChars: number;
+  /** Token budget applied alongside `maxChars`; the tighter of the two wins. */
+  maxTokens?: number;
   listTools: () => Promise<string[]>;
-  callTool: (name: string, args: unknown) => Promise<{ content: unknown[]; raw: unknown }>;
+  callTool: (name: string, args: unknown, opts?: KotaCallOptions) => Promise<{ content: unknown[]; raw: unknown }>;
   onTransportError?: (err: unknown) => void;
-}): Promise<{ text: string; raw: unknown; ok: boolean }> {
+  /** Cancels the in-flight request (and any downshift re-issue); a cancelled call rejects instead of returning. */
+  signal?: AbortSignal;
+  /** Per-request timeout, passed to the MCP SDK. */
+  timeoutMs?: number;
+  /** When given, over-budget responses are re-issued with cheaper args instead of being cut mid-record. */
+  downshift?: (args: unknown) => Downshift | null;
+  /**
+   * Persists the full rendered output when downshifting or truncation drops part of it; the returned
+   * blob id is named in the truncation footer. Failures are ignored.
+   */
+  saveFull?: (text: string) => Promise<string | undefined>;
+}): Promise<{
+  text: string;
+  raw: unknown;
+  ok: boolean;
+  downshifts: string[];
+  data: KotaResult | null;
+  blobId?: string;
+}> {
   const mcpToolName = resolveMcpToolName(opts.toolName);
-  const mcpArgs = prepareMcpArgs(opts.toolName, opts.args);
+  const render = (res: { content: unknown[]; raw: unknown }) => {
+    // Known shapes render as compact records; anything else falls back to the raw text/JSON.
+    const data = parseKotaResponse(opts.toolName, res.content, res.raw);
+    const text = data ? renderKotaResult(data) : toTextContent(res.content) || JSON.stringify(res.raw, null, 2);
+    return { data, text };
+  };
+
+  const callOpts: KotaCallOptions = { signal: opts.signal, timeoutMs: opts.timeoutMs };
 
   try {
-    const { content, raw } = await opts.callTool(mcpToolName, mcpArgs);
-    const text = toTextContent(content);
-    const fallback = JSON.stringify(raw, null, 2);
+    let res = await opts.callTool(mcpToolName, prepareMcpArgs(opts.toolName, opts.args), callOpts);
+    let { data, text } = render(res);
+    // The richest answer, kept for the blob if downshifting replaces it.
+    const full = text;
+
+    const budget = { maxChars: opts.maxChars, maxTokens: opts.maxTokens };
+    let args = opts.args;
+    const downshifts: string[] = [];
+    while (opts.downshift && !fitsBudget(text, budget) && downshifts.length < MAX_DOWNSHIFTS) {
+      const next = opts.downshift(args);
+      if (!next) break;
+
+      try {
+        res = await opts.callTool(mcpToolName, prepareMcpArgs(opts.toolName, next.args), callOpts);
+      } catch (e) {
+        if (opts.signal?.aborted) throw e;
+        // Keep the over-budget answer we already have rather than failing the whole call.
+        if (isTransportError(e)) opts.onTransportError?.(e);
+        break;
+      }
+
+      args = next.args;
+      downshifts.push(next.note);
+      ({ data, text } = render(res));
+    }
+
+    const maxChars = budgetChars(text, budget);
+    const dropped = downshifts.length > 0 || text.length > maxChars;
+    const blobId = dropped ? await opts.saveFull?.(full).catch(() => undefined) : undefined;
     return {
-      text: truncateChars(text || fallback, opts.maxChars),
-      raw,
+      text: truncateOutput(text, maxChars, { unit: "results", blobId }).text,
+      raw: res.raw,
       ok: true,
+      downshifts,
+      data: data ? limitSnippets(data, maxChars) : null,
+      ...(blobId ? { blobId } : {}),
     };
   } catch (e) {
+    if (opts.signal?.aborted) throw e;
+
     const transportError = isTransportError(e);
     if (transportError) {
       opts.onTransportError?.(e);
@@ -84,6 +254,8 @@ export async function callBudgeted(opts: {
       text: truncateChars(formatToolError(opts.toolName, available, e), opts.maxChars),
       raw: null,
       ok: false,
+      downshifts: [],
+      data: null,
     };
   }
 }
@@ -1,6 +1,8 @@
 import { appendFile, mkdir } from "node:fs/promises";
 import path from "node:path";
 
+import { type Redactor, redactValue } from "./redact.js";
+
 export interface Logger {
   log(category: string, event: string, data?: Record<string, unknown>): Promise<void>;
   close(): Promise<void>;
@@ -11,7 +13,7 @@ const noopLogger: Logger = {
   async close() {},
 };
 
-export async function createLogger(opts: { enabled: boolean; path?: string }): Promise<Logger> {
+export async function createLogger(opts: { enabled: boolean; path?: string; redactor?: Redactor }): Promise<Logger> {
   if (!opts.enabled || !opts.path) return noopLogger;
 
   const logPath = opts.path;
@@ -25,7 +27,8 @@ export async function createLogger(opts: { enabled: boolean; path?: string }): P
   return {
     async log(category: string, event: string, data?: Record<string, unknown>): Promise<void> {
       try {
-        const entry = JSON.stringify({ ts: new Date().toISOString(), category, event, data }) + "\n";
+        const safeData = data && opts.redactor ? redactValue(data, opts.redactor) : data;
+        const entry = JSON.stringify({ ts: new Date().toISOString(), category, event, data: safeData }) + "\n";
         await appendFile(logPath, entry, "utf8");
       } catch {
         // best-effort: never throw
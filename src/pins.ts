@@ -0,0 +1,49 @@
+export interface PinsCommandResult {
+  text: string;
+  level: "info" | "warning";
+}
+
+export interface PinState {
+  /** Pinned tool call ids, oldest first. Mutated in place. */
+  pinnedToolCallIds: string[];
+  lastToolCallId: string | null;
+}
+
+function budgetNote(budgetTokens: number | undefined): string {
+  return budgetTokens === undefined
+    ? ""
+    : ` Pins share a ${budgetTokens}-token budget (prune.pinBudgetTokens); the oldest beyond it are pruned normally.`;
+}
+
+/** `/kota pin` and `/kota unpin`; with no argument they act on the last tool result / most recent pin. */
+export function runPinCommand(
+  cmd: "pin" | "unpin",
+  arg: string,
+  state: PinState,
+  budgetTokens?: number,
+): PinsCommandResult {
+  const target = arg.trim();
+  const pins = state.pinnedToolCallIds;
+
+  if (cmd === "pin") {
+    const id = !target || target === "last" ? state.lastToolCallId : target;
+    if (!id) return { text: "No tool result to pin yet.", level: "warning" };
+    if (pins.includes(id)) return { text: `Tool call ${id} is already pinned.`, level: "info" };
+
+    pins.push(id);
+    return { text: `Pinned tool call ${id} (${pins.length} pinned).${budgetNote(budgetTokens)}`, level: "info" };
+  }
+
+  if (target === "all") {
+    const n = pins.splice(0).length;
+    return { text: `Unpinned ${n} tool call${n === 1 ? "" : "s"}.`, level: "info" };
+  }
+
+  const id = target || pins.at(-1);
+  if (!id) return { text: "Nothing is pinned.", level: "info" };
+  const idx = pins.indexOf(id);
+  if (idx === -1) return { text: `Tool call ${id} is not pinned.`, level: "warning" };
+
+  pins.splice(idx, 1);
+  return { text: `Unpinned tool call ${id} (${pins.length} pinned).`, level: "info" };
+}
@@ -0,0 +1,108 @@
+import { truncateChars } from "./text.js";
+import { estimateTokens } from "./tokens.js";
+
+export interface ToolCallInfo {
+  name: string;
+  arguments: Record<string, unknown>;
+}
+
+const ARG_VALUE_MAX_CHARS = 80;
+const COMMAND_MAX_CHARS = 160;
+const ARGS_MAX_CHARS = 240;
+const PREVIEW_LINES = 3;
+const PREVIEW_LINE_MAX_CHARS = 160;
+
+function isRecord(v: unknown): v is Record<string, unknown> {
+  return typeof v === "object" && v !== null && !Array.isArray(v);
+}
+
+/** Map toolCallId → the assistant toolCall that produced it, so results can name their arguments. */
+export function collectToolCalls(messages: unknown[]): Map<string, ToolCallInfo> {
+  const calls = new Map<string, ToolCallInfo>();
+  for (const m of messages) {
+    if (!isRecord(m) || m.role !== "assistant" || !Array.isArray(m.content)) continue;
+    for (const block of m.content) {
+      if (!isRecord(block) || block.type !== "toolCall" || typeof block.id !== "string") continue;
+      calls.set(block.id, {
+        name: typeof block.name === "string" ? block.name : "",
+        arguments: isRecord(block.arguments) ? block.arguments : {},
+      });
+    }
+  }
+  return calls;
+}
+
+function formatValue(v: unknown, maxChars = ARG_VALUE_MAX_CHARS): string {
+  if (typeof v === "string") return JSON.stringify(truncateChars(v, maxChars));
+  return truncateChars(JSON.stringify(v) ?? String(v), maxChars);
+}
+
+function formatReadArgs(args: Record<string, unknown>): string[] {
+  const parts = [`path=${formatValue(args.path ?? args.file_path)}`];
+  const offset = typeof args.offset === "number" ? args.offset : undefined;
+  const limit = typeof args.limit === "number" ? args.limit : undefined;
+  if (offset !== undefined || limit !== undefined) {
+    const start = offset ?? 1;
+    parts.push(limit !== undefined ? `lines ${start}-${start + limit - 1}` : `from line ${start}`);
+  }
+  return parts;
+}
+
+/** `read(path="src/foo.ts", lines 1-400)`, `bash(command="npm test")`, `kota_search(query="x", limit=5)`. */
+export function formatToolCall(name: string, args: Record<string, unknown>): string {
+  let parts: string[];
+  if (name === "read") {
+    parts = formatReadArgs(args);
+  } else if (name === "bash" && typeof args.command === "string") {
+    parts = [`command=${formatValue(args.command, COMMAND_MAX_CHARS)}`];
+  } else {
+    parts = Object.entries(args)
+      .filter(([, v]) => v !== undefined && v !== null)
+      .map(([k, v]) => `${k}=${formatValue(v)}`);
+  }
+  return `${name}(${truncateChars(parts.join(", "), ARGS_MAX_CHARS)})`;
+}
+
+/** First non-empty lines of a tool output, each capped, as a cheap stand-in for the full text. */
+export function previewLines(text: string, maxLines = PREVIEW_LINES): string[] {
+  return text
+    .split("\n")
+    .filter((l) => l.trim())
+    .slice(0, maxLines)
+    .map((l) => truncateChars(l.trimEnd(), PREVIEW_LINE_MAX_CHARS));
+}
+
+export function formatPrunedPlaceholder(opts: {
+  toolName: string;
+  call?: ToolCallInfo;
+  text: string;
+  blobId?: string;
+  /** Why the result is stale (e.g. "superseded by later read at turn 4"); replaces the preview. */
+  reason?: string;
+  /** Extractive summary of the output; replaces the preview. */
+  summary?: string;
+}): string {
+  const head = opts.call ? formatToolCall(opts.toolName, opts.call.arguments) : opts.toolName;
+  const size = `${opts.text.length} chars, ~${estimateTokens(opts.text)} tokens`;
+  const lines = [`(Pruned) ${head} output (${size})${opts.reason ? ` — ${opts.reason}` : ""}.`];
+
+  if (opts.summary) {
+    lines.push("Summary:", ...opts.summary.split("\n").map((l) => `  ${l}`));
+  } else {
+    const preview = opts.reason ? [] : previewLines(opts.text);
+    if (preview.length) lines.push("First lines:", ...preview.map((l) => `  ${l}`));
+  }
+
+  lines.push(
+    opts.blobId
+      ? `Full output: kota_blob_read(blob_id="${opts.blobId}").`
+      : "Rehydrate by re-running the tool with narrower parameters.",
+  );
+  return lines.join("\n");
+}
+
+/** Stand-in for an image dropped from context: `(Pruned) image/png image (~182 KB) from screenshot(url="…").` */
+export function formatImagePlaceholder(image: { mimeType?: string; data?: string }, source: string): string {
+  const kb = Math.ceil(((image.data?.length ?? 0) * 3) / 4 / 1024);
+  return `(Pruned) ${image.mimeType ?? "image"} image (~${kb} KB) from ${source}.`;
+}
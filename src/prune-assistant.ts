@@ -0,0 +1,142 @@
+import { truncateChars } from "./text.js";
+import { estimateTokens } from "./tokens.js";
+
+/** Condensing of old assistant prose (`text` and `thinking` blocks); `toolCall` blocks are never touched. */
+export interface PruneAssistantSettings {
+  enabled: boolean;
+  /** Assistant messages whose text + thinking exceed either limit are condensed. */
+  maxChars: number;
+  maxTokens: number;
+}
+
+export const DEFAULT_PRUNE_ASSISTANT: PruneAssistantSettings = { enabled: false, maxChars: 2000, maxTokens: 500 };
+
+const FIRST_PARAGRAPH_MAX_CHARS = 400;
+const MAX_PATHS = 12;
+const MAX_DECISIONS = 6;
+const DECISION_MAX_CHARS = 200;
+
+const PATH_PATTERN = /^(?:\.{0,2}\/|~\/)?(?:[\w@.-]+\/)*[\w@-][\w@.-]*\.[A-Za-z]\w{0,9}$/;
+const CODE_EXTENSION = /\.(?:[cm]?[jt]sx?|json|md|ya?ml|toml|py|go|rs|java|rb|css|html|sh)$/;
+const DECISION_WORDS = [
+  "decision",
+  "decided",
+  "conclusion",
+  "chose",
+  "choosing",
+  "going with",
+  "we'll",
+  "we will",
+  "we should",
+  "i'll",
+  "i will",
+  "plan",
+  "root cause",
+  "fix",
+];
+const DECISION_PATTERN = new RegExp(`^(?:[-*]\\s+|\\d+\\.\\s+)?(?:${DECISION_WORDS.join("|")})\\b`, "i");
+
+type Block = Record<string, unknown>;
+
+function isRecord(v: unknown): v is Block {
+  return typeof v === "object" && v !== null && !Array.isArray(v);
+}
+
+/** Text of a `text` or `thinking` block, or undefined for other blocks. */
+export function proseText(block: unknown): string | undefined {
+  if (!isRecord(block)) return undefined;
+  if (block.type === "text" && typeof block.text === "string") return block.text;
+  if (block.type === "thinking" && typeof block.thinking === "string") return block.thinking;
+  return undefined;
+}
+
+/** All prose of an assistant message, joined; empty for string or missing content. */
+export function assistantProse(m: { content?: unknown }): string {
+  if (!Array.isArray(m.content)) return "";
+  return m.content
+    .map(proseText)
+    .filter((t): t is string => t !== undefined)
+    .join("\n\n");
+}
+
+/** Lines outside fenced code blocks; code the agent wrote is the bulk we want to drop. */
+function proseLines(text: string): string[] {
+  const out: string[] = [];
+  let fenced = false;
+  for (const line of text.split("\n")) {
+    if (/^\s*(```|~~~)/.test(line)) {
+      fenced = !fenced;
+      continue;
+    }
+    if (!fenced) out.push(line);
+  }
+  return out;
+}
+
+function firstParagraph(lines: string[]): string {
+  const start = lines.findIndex((l) => l.trim());
+  if (start === -1) return "";
+  const end = lines.findIndex((l, i) => i > start && !l.trim());
+  const paragraph = lines
+    .slice(start, end === -1 ? undefined : end)
+    .map((l) => l.trim())
+    .join(" ");
+  return truncateChars(paragraph, FIRST_PARAGRAPH_MAX_CHARS);
+}
+
+function filePaths(lines: string[]): string[] {
+  const paths = new Set<string>();
+  for (const line of lines) {
+    for (const word of line.split(/\s+/)) {
+      const token = word.replace(/^[`'"(\[]+/, "").replace(/[`'",;:.)\]]+$/, "").replace(/:\d+(?::\d+)?$/, "");
+      // Require a directory or a code-ish extension so prose like "e.g." or "v1.2" is skipped.
+      if (PATH_PATTERN.test(token) && (token.includes("/") || CODE_EXTENSION.test(token))) paths.add(token);
+    }
+  }
+  return [...paths].slice(0, MAX_PATHS);
+}
+
+function decisions(lines: string[], skip: string): string[] {
+  const out = new Set<string>();
+  for (const line of lines) {
+    const trimmed = line.trim();
+    if (!DECISION_PATTERN.test(trimmed) || skip.includes(trimmed)) continue;
+    out.add(truncateChars(trimmed, DECISION_MAX_CHARS));
+    if (out.size >= MAX_DECISIONS) break;
+  }
+  return [...out];
+}
+
+/** First paragraph, mentioned file paths and decision-like lines of `text`, under a `(Pruned …)` header. */
+export function condenseProse(text: string, kind: "text" | "thinking"): string {
+  const lines = proseLines(text);
+  const paragraph = firstParagraph(lines);
+  const paths = filePaths(lines);
+  const kept = decisions(lines, paragraph);
+
+  const label = kind === "thinking" ? "thinking" : "assistant text";
+  return [
+    `(Pruned ${label}: ${text.length} chars, ~${estimateTokens(text)} tokens.)`,
+    paragraph,
+    paths.length ? `Files: ${paths.join(", ")}` : "",
+    ...(kept.length ? ["Decisions:", ...kept.map((d) => (/^[-*]\s/.test(d) ? d : `- ${d}`))] : []),
+  ]
+    .filter(Boolean)
+    .join("\n");
+}
+
+/**
+ * Condense each `text`/`thinking` block that shrinks by it; `toolCall` and other blocks are kept
+ * as-is so tool-call/result pairing is never broken. Thinking blocks become plain text, since a
+ * rewritten thinking block would no longer match its signature.
+ */
+export function condenseAssistantContent(content: unknown[]): unknown[] {
+  return content.map((block) => {
+    const text = proseText(block);
+    if (text === undefined) return block;
+
+    const kind = (block as Block).type === "thinking" ? "thinking" : "text";
+    const condensed = condenseProse(text, kind);
+    return condensed.length < text.length ? { type: "text", text: condensed } : block;
+  });
+}
@@ -0,0 +1,184 @@
+import { collectToolCalls, formatToolCall } from "./placeholder.js";
+import { messageSize, type PruneDecision, type PruneReason, type PruneSettings } from "./prune.js";
+import { formatSupersession } from "./supersede.js";
+
+export interface PruneLedgerEntry {
+  /** Message index in the context the result was first pruned from. */
+  index: number;
+  toolName: string;
+  toolCallId?: string;
+  /** `read(path="src/a.ts")`-style call description, or the bare tool name. */
+  label: string;
+  reason: PruneReason;
+  /** Human-readable supersession, for `reason: "superseded"`. */
+  detail?: string;
+  /** `atPercent` of the adaptive tier active at the time, if any. */
+  tier?: number;
+  originalChars: number;
+  savedChars: number;
+  savedTokens: number;
+  at: number;
+}
+
+export interface PruneLedgerTotals {
+  actions: number;
+  savedChars: number;
+  savedTokens: number;
+}
+
+const DEFAULT_MAX_ENTRIES = 200;
+
+function decisionKey(d: { index: number; toolName: string; toolCallId?: string }): string {
+  return d.toolCallId ?? `${d.index}:${d.toolName}`;
+}
+
+function describe(d: PruneDecision, calls: ReturnType<typeof collectToolCalls>): { label: string; detail?: string } {
+  const call = d.toolCallId !== undefined ? calls.get(d.toolCallId) : undefined;
+  return {
+    label: call ? formatToolCall(d.toolName, call.arguments) : d.toolName,
+    ...(d.supersession ? { detail: formatSupersession(d.supersession) } : {}),
+  };
+}
+
+/**
+ * Per-session record of what the `context` hook pruned. Every model call re-prunes the full
+ * history, so each tool result is recorded once, the first time it is pruned.
+ */
+export class PruneLedger {
+  private _entries: PruneLedgerEntry[] = [];
+  private _seen = new Set<string>();
+  private _totals: PruneLedgerTotals = { actions: 0, savedChars: 0, savedTokens: 0 };
+
+  constructor(private readonly maxEntries = DEFAULT_MAX_ENTRIES) {}
+
+  get totals(): PruneLedgerTotals {
+    return { ...this._totals };
+  }
+
+  has(d: { index: number; toolName: string; toolCallId?: string }): boolean {
+    return this._seen.has(decisionKey(d));
+  }
+
+  /** Record the decisions in `plan` not seen before; `pruned` is the rewritten copy of `messages`. */
+  record(plan: PruneDecision[], messages: unknown[], pruned: unknown[], tier?: number, now = Date.now()): number {
+    const calls = collectToolCalls(messages);
+    let added = 0;
+
+    for (const d of plan) {
+      if (this.has(d)) continue;
+      this._seen.add(decisionKey(d));
+
+      const before = messageSize(messages[d.index]);
+      const after = messageSize(pruned[d.index]);
+      const entry: PruneLedgerEntry = {
+        index: d.index,
+        toolName: d.toolName,
+        ...(d.toolCallId !== undefined ? { toolCallId: d.toolCallId } : {}),
+        ...describe(d, calls),
+        reason: d.reason,
+        ...(tier !== undefined ? { tier } : {}),
+        originalChars: d.originalChars,
+        savedChars: Math.max(0, before.chars - after.chars),
+        savedTokens: Math.max(0, before.tokens - after.tokens),
+        at: now,
+      };
+
+      this._entries.push(entry);
+      this._totals.actions++;
+      this._totals.savedChars += entry.savedChars;
+      this._totals.savedTokens += entry.savedTokens;
+      added++;
+    }
+
+    if (this._entries.length > this.maxEntries) this._entries.splice(0, this._entries.length - this.maxEntries);
+    return added;
+  }
+
+  /** The last `n` entries, oldest first. */
+  recent(n: number): PruneLedgerEntry[] {
+    return n > 0 ? this._entries.slice(-n) : [];
+  }
+}
+
+function formatReason(reason: PruneReason, detail: string | undefined): string {
+  if (reason === "size") return "over budget";
+  if (reason === "always") return "always-prune rule";
+  if (reason === "image") return "old images";
+  return detail ?? "superseded";
+}
+
+export function formatPruneSettings(settings: PruneSettings, opts: { adaptive: boolean; percent?: number }): string {
+  const parts = [
+    `keepRecentTurns=${settings.keepRecentTurns}`,
+    `maxToolChars=${settings.maxToolChars}`,
+    settings.maxToolTokens !== undefined ? `maxToolTokens=${settings.maxToolTokens}` : "",
+  ].filter(Boolean);
+
+  const usage = opts.percent !== undefined ? `context ${Math.round(opts.percent)}%` : "context usage unknown";
+  const tier = !opts.adaptive
+    ? "adaptive off"
+    : settings.tier !== undefined
+      ? `tier ${settings.tier}% (${usage})`
+      : `no tier (${usage})`;
+  const extra = settings.extraTools?.length ? `, extra tools: ${settings.extraTools.join(", ")}` : "";
+  return `${parts.join(", ")}; ${tier}${extra}`;
+}
+
+/** `/kota pruning`: effective settings, the last `limit` actions and what they saved. */
+export function formatPruningReport(
+  ledger: PruneLedger,
+  settings: PruneSettings,
+  opts: { adaptive: boolean; percent?: number; limit: number },
+): string {
+  const totals = ledger.totals;
+  const lines = [
+    "pi-kota pruning",
+    `settings: ${formatPruneSettings(settings, opts)}`,
+    `saved: ${totals.savedChars} chars (~${totals.savedTokens} tokens) across ${totals.actions} pruned results`,
+  ];
+
+  const recent = ledger.recent(opts.limit);
+  if (!recent.length) {
+    lines.push("No tool results pruned yet this session.");
+    return lines.join("\n");
+  }
+
+  lines.push(`last ${recent.length}:`);
+  for (const e of recent) {
+    const tier = e.tier !== undefined ? `, tier ${e.tier}%` : "";
+    // Image stand-ins save tokens, not text: the result's chars are unchanged.
+    const saved =
+      e.reason === "image"
+        ? `saved ~${e.savedTokens} tokens`
+        : `${e.originalChars} chars, saved ${e.savedChars} (~${e.savedTokens} tokens)`;
+    lines.push(`  #${e.index} ${e.label}: ${saved} — ${formatReason(e.reason, e.detail)}${tier}`);
+  }
+  return lines.join("\n");
+}
+
+/** `/kota pruning --dry-run`: what the next model call would replace with placeholders. */
+export function formatPruneDryRun(
+  plan: PruneDecision[],
+  messages: unknown[],
+  ledger: PruneLedger,
+  settings: PruneSettings,
+  opts: { adaptive: boolean; percent?: number },
+): string {
+  const lines = ["pi-kota pruning dry run", `settings: ${formatPruneSettings(settings, opts)}`];
+  if (!plan.length) {
+    lines.push(`Nothing to prune in ${messages.length} messages.`);
+    return lines.join("\n");
+  }
+
+  const chars = plan.reduce((sum, d) => sum + d.originalChars, 0);
+  const fresh = plan.filter((d) => !ledger.has(d)).length;
+  lines.push(`would prune ${plan.length} of ${messages.length} messages (${chars} chars), ${fresh} not pruned before:`);
+
+  const calls = collectToolCalls(messages);
+  for (const d of plan) {
+    const { label, detail } = describe(d, calls);
+    const tag = ledger.has(d) ? "" : " [new]";
+    lines.push(`  #${d.index} ${label}: ${d.originalChars} chars — ${formatReason(d.reason, detail)}${tag}`);
+  }
+  return lines.join("\n");
+}
@@ -0,0 +1,68 @@
+/** Per-tool pruning overrides, keyed in config by tool name or glob (`mcp_*`, `kota_*`). */
+export interface PruneToolRule {
+  maxToolChars?: number;
+  maxToolTokens?: number;
+  keepRecentTurns?: number;
+  /** Never prune this tool's results (not even when superseded). */
+  never?: boolean;
+  /** Prune once older than `keepRecentTurns`, whatever the size. */
+  always?: boolean;
+}
+
+export type PruneToolRules = Record<string, PruneToolRule>;
+
+export const DEFAULT_PRUNE_TOOLS: PruneToolRules = {
+  read: {},
+  bash: {},
+  kota_search: {},
+  kota_blob_read: {},
+};
+
+/** Adaptive pruning step that applies once context usage reaches `atPercent` of the window. */
+export interface PruneTier {
+  atPercent: number;
+  keepRecentTurns?: number;
+  maxToolChars?: number;
+  maxToolTokens?: number;
+  /** Extra prunable tools (names or globs) at this pressure, unless a `prune.tools` rule says otherwise. */
+  tools?: string[];
+}
+
+export const DEFAULT_PRUNE_TIERS: PruneTier[] = [
+  { atPercent: 50, keepRecentTurns: 2, maxToolChars: 1000, maxToolTokens: 250 },
+  { atPercent: 70, keepRecentTurns: 1, maxToolChars: 800, maxToolTokens: 200, tools: ["kota_deps", "kota_usages"] },
+  { atPercent: 85, keepRecentTurns: 1, maxToolChars: 400, maxToolTokens: 100, tools: ["kota_*", "grep", "find", "ls"] },
+];
+
+/** Default cap for the extractive summary kept in a pruned result's placeholder. */
+export const DEFAULT_SUMMARY_MAX_CHARS = 600;
+
+export function isGlob(pattern: string): boolean {
+  return /[*?]/.test(pattern);
+}
+
+/** `*` matches any run of characters, `?` exactly one; everything else is literal. */
+export function globToRegExp(glob: string): RegExp {
+  const body = glob
+    .split("")
+    .map((ch) => (ch === "*" ? ".*" : ch === "?" ? "." : ch.replace(/[.+^${}()|[\]\\]/g, "\\$&")))
+    .join("");
+  return new RegExp(`^${body}$`);
+}
+
+export function matchesAny(patterns: string[] | undefined, toolName: string): boolean {
+  return !!patterns?.some((p) => (isGlob(p) ? globToRegExp(p).test(toolName) : p === toolName));
+}
+
+/** Rule for `toolName`: an exact key wins, otherwise the longest (most specific) matching glob. */
+export function resolvePruneRule(rules: PruneToolRules | undefined, toolName: string): PruneToolRule | undefined {
+  if (!rules) return undefined;
+  if (Object.hasOwn(rules, toolName)) return rules[toolName];
+
+  let best: string | undefined;
+  for (const pattern of Object.keys(rules)) {
+    if (!isGlob(pattern) || !globToRegExp(pattern).test(toolName)) continue;
+    if (best === undefined || pattern.length > best.length) best = pattern;
+  }
+  return best === undefined ? undefined : rules[best];
+}
@@ -1,6 +1,24 @@
+import {
+  collectToolCalls,
+  formatImagePlaceholder,
+  formatPrunedPlaceholder,
+  formatToolCall,
+} from "./placeholder.js";
+import { assistantProse, condenseAssistantContent } from "./prune-assistant.js";
+import { matchesAny, type PruneTier, type PruneToolRules, resolvePruneRule } from "./prune-rules.js";
+import { findSupersededResults, formatSupersession, type Supersession } from "./supersede.js";
+import { truncateChars } from "./text.js";
+import { estimateTokens, fitsBudget } from "./tokens.js";
+
 function isToolResult(
   m: unknown,
-): m is { role: "toolResult"; toolName: string; content: Array<{ type?: string; text?: string }>; details?: unknown } {
+): m is {
+  role: "toolResult";
+  toolName: string;
+  toolCallId?: string;
+  content: ContentBlock[];
+  details?: unknown;
+} {
   return (
     typeof m === "object" &&
     m !== null &&
@@ -9,33 +27,335 @@ function isToolResult(
   );
 }
 
-function toolText(m: { content?: Array<{ type?: string; text?: string }> }): string {
-  const block = Array.isArray(m.content) ? m.content.find((b) => b?.type === "text") : undefined;
-  return typeof block?.text === "string" ? block.text : "";
+function isAssistant(m: unknown): m is { role: "assistant"; content: unknown[] } {
+  return (
+    typeof m === "object" &&
+    m !== null &&
+    (m as { role?: string }).role === "assistant" &&
+    Array.isArray((m as { content?: unknown }).content)
+  );
+}
+
+/** A tool result content block: `text`, or `image` with base64 `data`. */
+export interface ContentBlock {
+  type?: string;
+  text?: string;
+  data?: string;
+  mimeType?: string;
+}
+
+/** Rough per-image token cost (a ~1000px image); providers scale it by resolution. */
+export const IMAGE_TOKENS = 1500;
+
+function blocks(m: { content?: unknown }): ContentBlock[] {
+  return Array.isArray(m.content) ? (m.content as ContentBlock[]).filter((b) => typeof b === "object" && b) : [];
+}
+
+export function isImageBlock(b: ContentBlock): boolean {
+  return b.type === "image";
+}
+
+/** All text blocks of a tool result, joined by newlines. */
+export function toolText(m: { content?: unknown }): string {
+  return blocks(m)
+    .filter((b) => b.type === "text" && typeof b.text === "string")
+    .map((b) => b.text)
+    .join("\n");
+}
+
+/**
+ * Size of a message as the model sees it: `chars` of text (assistant prose included) and `tokens`
+ * for text plus images. Base64 payloads are not counted as chars; images only cost tokens.
+ */
+export function messageSize(m: unknown): { chars: number; tokens: number } {
+  if (typeof m !== "object" || m === null) return { chars: 0, tokens: 0 };
+  const text = (m as { role?: string }).role === "assistant" ? assistantProse(m) : toolText(m);
+  const images = blocks(m).filter(isImageBlock).length;
+  return { chars: text.length, tokens: estimateTokens(text) + images * IMAGE_TOKENS };
+}
+
+function isPinned(m: { toolCallId?: string; details?: unknown }, pinnedIds: Set<string> | undefined): boolean {
+  if ((m.details as { pinned?: unknown } | undefined)?.pinned === true) return true;
+  return m.toolCallId !== undefined && !!pinnedIds?.has(m.toolCallId);
+}
+
+/**
+ * Indexes of pinned tool results that stay verbatim. Newest pins win: once their combined size
+ * exceeds `budgetTokens`, older pins fall back to normal pruning.
+ */
+export function protectedPinIndexes(
+  messages: unknown[],
+  pinnedIds: Set<string> | undefined,
+  budgetTokens: number | undefined,
+): Set<number> {
+  const out = new Set<number>();
+  let used = 0;
+  for (let i = messages.length - 1; i >= 0; i--) {
+    const m = messages[i];
+    if (!isToolResult(m) || !isPinned(m, pinnedIds)) continue;
+    used += estimateTokens(toolText(m));
+    if (budgetTokens !== undefined && used > budgetTokens) break;
+    out.add(i);
+  }
+  return out;
+}
+
+export interface PruneSettings {
+  keepRecentTurns: number;
+  maxToolChars: number;
+  /** Token budget per tool result; when set it applies alongside `maxToolChars` (tighter wins). */
+  maxToolTokens?: number;
+  /** `atPercent` of the adaptive tier in effect, if any. */
+  tier?: number;
+  /** Tools the active tier adds to the prunable set. */
+  extraTools?: string[];
+}
+
+/** Context usage as a percentage of the model's window, or undefined when the window is unknown. */
+export function contextPercent(
+  usage: { tokens?: number; contextWindow?: number; percent?: number } | undefined,
+): number | undefined {
+  if (typeof usage?.percent === "number" && Number.isFinite(usage.percent)) return usage.percent;
+  if (usage?.tokens && usage.contextWindow) return (usage.tokens / usage.contextWindow) * 100;
+  return undefined;
+}
+
+function minDefined(a: number | undefined, b: number | undefined): number | undefined {
+  if (a === undefined) return b;
+  if (b === undefined) return a;
+  return Math.min(a, b);
+}
+
+/** Highest tier reached at `percent`; tiers only ever tighten the base settings. */
+function applyTier(base: PruneSettings, percent: number, tiers: PruneTier[]): PruneSettings {
+  const tier = tiers.filter((t) => percent >= t.atPercent).sort((a, b) => a.atPercent - b.atPercent).at(-1);
+  if (!tier) return base;
+
+  const maxToolTokens = minDefined(base.maxToolTokens, tier.maxToolTokens);
+  return {
+    keepRecentTurns: Math.min(base.keepRecentTurns, tier.keepRecentTurns ?? base.keepRecentTurns),
+    maxToolChars: Math.min(base.maxToolChars, tier.maxToolChars ?? base.maxToolChars),
+    ...(maxToolTokens !== undefined ? { maxToolTokens } : {}),
+    tier: tier.atPercent,
+    ...(tier.tools?.length ? { extraTools: tier.tools } : {}),
+  };
 }
 
+/**
+ * Tighten pruning under context pressure. With a known window (`percent`) and a tier table the
+ * highest tier reached applies; otherwise fall back to a single step at 120k tokens.
+ */
 export function computePruneSettings(
-  base: { keepRecentTurns: number; maxToolChars: number },
+  base: PruneSettings,
   tokens: number | undefined,
-): { keepRecentTurns: number; maxToolChars: number } {
+  adaptive?: { percent?: number; tiers?: PruneTier[] },
+): PruneSettings {
+  if (adaptive?.percent !== undefined && adaptive.tiers?.length) {
+    return applyTier(base, adaptive.percent, adaptive.tiers);
+  }
+
   if (!tokens) return base;
   if (tokens < 120_000) return base;
   return {
     keepRecentTurns: Math.max(1, base.keepRecentTurns - 1),
     maxToolChars: Math.max(400, Math.floor(base.maxToolChars * 0.66)),
+    ...(base.maxToolTokens !== undefined
+      ? { maxToolTokens: Math.max(100, Math.floor(base.maxToolTokens * 0.66)) }
+      : {}),
   };
 }
 
-export function pruneContextMessages(
-  messages: unknown[],
-  opts: {
-    keepRecentTurns: number;
-    maxToolChars: number;
-    pruneToolNames: Set<string>;
-  },
-): unknown[] {
-  const keepRecentTurns = Math.max(0, opts.keepRecentTurns);
+export interface PruneOptions {
+  keepRecentTurns: number;
+  maxToolChars: number;
+  maxToolTokens?: number;
+  /** Tools pruned with the defaults above; `toolRules` can add tools and override settings per tool. */
+  pruneToolNames?: Set<string>;
+  /** Per-tool rules keyed by name or glob (`mcp_*`); see `resolvePruneRule`. */
+  toolRules?: PruneToolRules;
+  /** Extra prunable tools (names or globs) from the active adaptive tier; `toolRules` take precedence. */
+  extraTools?: string[];
+  /** Adaptive tightening factor (0–1] applied to `toolRules` budgets, so per-tool overrides shrink with the tier. */
+  ruleBudgetScale?: number;
+  /** Tool calls pinned with `/kota pin`; results with `details.pinned` are pinned too. */
+  pinnedToolCallIds?: Set<string>;
+  /** Combined token budget for pinned results (unbounded when omitted). */
+  pinBudgetTokens?: number;
+  /** toolCallId → blob holding the full output, for results that were not truncated into a blob already. */
+  blobIds?: Map<string, string>;
+  /** Also prune re-read/edited `read`s and repeated `kota_*` queries, regardless of turn age. */
+  supersede?: boolean;
+  /** Repo root that relative `read`/`edit`/`write` paths are resolved against when matching supersession. */
+  repoRoot?: string;
+  /** Keep an extractive summary of up to this many chars in the placeholder (see `summarizeToolOutput`). */
+  summaryMaxChars?: number;
+  /** Condense `text`/`thinking` of older assistant messages over this budget; `toolCall` blocks are kept. */
+  assistant?: { maxChars: number; maxTokens?: number };
+  /** Replace image blocks in results older than the cutoff, whichever tool produced them (unless `never`). */
+  images?: boolean;
+}
+
+const SUMMARY_LINE_MAX_CHARS = 200;
+const SIGNATURE_MAX_LINES = 8;
+
+const ANSI_PATTERN = /\x1b\[[0-9;]*[A-Za-z]/g;
+const TEST_COMMAND =
+  /\b(vitest|jest|mocha|ava|pytest|go test|cargo test|node --test|(npm|pnpm|yarn|bun)( run)? test)\b/;
+const TEST_FAILURE = [
+  /^(FAIL|FAILED|--- FAIL|not ok)\b/,
+  /^[×✗✕]\s/,
+  /^●\s/,
+  /\.\.\. FAILED$/,
+  /^\d+\) \S/,
+  /^(AssertionError|Error|TypeError|ReferenceError)\b.*:/,
+];
+const TEST_TOTALS = [
+  /^(Tests?|Test Files|Test Suites|Suites)\s*:?\s.*\b(passed|failed|total)\b/i,
+  /^\d+ (passing|failing|pending)\b/,
+  /^=+ .*\b(passed|failed|errors?)\b.* =+$/,
+  /^test result:/,
+  /^# (tests|pass|fail) \d+$/,
+  /^(ok|FAIL)\s+\S+\s+[\d.]+s$/,
+];
+const TSC_ERROR = /^(.+?)(?:\((\d+),(\d+)\)|:(\d+):(\d+)) ?[:-] error (TS\d+): (.*)$/;
+const TSC_FOUND = /^Found \d+ errors?\b/;
+const EXPORT_LINE = /^(export\s|module\.exports\b|exports\.\w+\s*=)/;
 
+/** Non-empty, trimmed, ANSI-free lines. */
+function plainLines(text: string): string[] {
+  return text
+    .replace(ANSI_PATTERN, "")
+    .split("\n")
+    .map((l) => l.trim())
+    .filter(Boolean);
+}
+
+function summarizeTestRun(text: string): string[] {
+  return plainLines(text).filter((l) => [...TEST_FAILURE, ...TEST_TOTALS].some((re) => re.test(l)));
+}
+
+function summarizeTsc(text: string): string[] {
+  const out: string[] = [];
+  for (const line of plainLines(text)) {
+    const m = TSC_ERROR.exec(line);
+    if (m) out.push(`${m[1]}(${m[2] ?? m[4]},${m[3] ?? m[5]}): ${m[6]} ${m[7]}`);
+    else if (TSC_FOUND.test(line)) out.push(line);
+  }
+  return out;
+}
+
+/** Exported declarations without their bodies; multi-line parameter lists are joined onto one line. */
+function summarizeExports(text: string): string[] {
+  const lines = text.split("\n");
+  const out: string[] = [];
+  for (let i = 0; i < lines.length; i++) {
+    if (!EXPORT_LINE.test(lines[i].trim())) continue;
+
+    let signature = "";
+    let depth = 0;
+    for (let j = i; j < Math.min(lines.length, i + SIGNATURE_MAX_LINES); j++) {
+      signature += `${j > i && !signature.endsWith("(") ? " " : ""}${lines[j].trim()}`;
+      depth += (lines[j].match(/\(/g) ?? []).length - (lines[j].match(/\)/g) ?? []).length;
+      if (depth <= 0) break;
+    }
+    out.push(signature.replace(/,\s*\)/g, ")").replace(/\s*\{\s*$/, ""));
+  }
+  return out;
+}
+
+function summarizeSearchPaths(text: string, details: unknown): string[] {
+  const data = (details as { data?: { kind?: string; files?: Array<{ path?: unknown }> } } | undefined)?.data;
+  if (data?.kind === "search" && Array.isArray(data.files)) {
+    return data.files.map((f) => f.path).filter((p): p is string => typeof p === "string");
+  }
+  return plainLines(text)
+    .map((l) => /^([\w@.~-]*[\w@~-]\/[^\s:]+|[\w@.-]+\.\w+)(?::\d+)?(?:\s|$)/.exec(l)?.[1])
+    .filter((p): p is string => !!p);
+}
+
+function capLines(lines: string[], maxChars: number): string {
+  const unique = [...new Set(lines.map((l) => truncateChars(l, SUMMARY_LINE_MAX_CHARS)))];
+  const kept: string[] = [];
+  let used = 0;
+  for (const line of unique) {
+    if (used + line.length + 1 > maxChars && kept.length) break;
+    kept.push(truncateChars(line, maxChars));
+    used += line.length + 1;
+  }
+  const more = unique.length - kept.length;
+  return [...kept, ...(more > 0 ? [`… ${more} more line${more === 1 ? "" : "s"}`] : [])].join("\n");
+}
+
+/**
+ * Deterministic extractive summary of a tool output, or undefined when no strategy applies:
+ * failing tests and totals for test runs, error codes and locations for `tsc`, exported
+ * signatures for `read`, and matched paths for `kota_search`. Capped at `maxChars`.
+ */
+export function summarizeToolOutput(
+  input: { toolName: string; args?: Record<string, unknown>; text: string; details?: unknown },
+  maxChars: number,
+): string | undefined {
+  if (maxChars <= 0) return undefined;
+
+  let lines: string[] = [];
+  if (input.toolName === "bash") {
+    const command = typeof input.args?.command === "string" ? input.args.command : "";
+    lines = summarizeTsc(input.text);
+    if (TEST_COMMAND.test(command) || !lines.length) lines = [...lines, ...summarizeTestRun(input.text)];
+  } else if (input.toolName === "read") {
+    lines = summarizeExports(input.text);
+  } else if (input.toolName === "kota_search") {
+    lines = summarizeSearchPaths(input.text, input.details);
+  }
+
+  return lines.length ? capLines(lines, maxChars) : undefined;
+}
+
+/** First message index inside the last `keepRecentTurns` user turns (everything before it is prunable). */
+function turnCutoff(userIndexes: number[], messageCount: number, keepRecentTurns: number): number {
+  const keep = Math.max(0, keepRecentTurns);
+  if (keep === 0) return messageCount;
+  return userIndexes.length > keep ? userIndexes[userIndexes.length - keep] : 0;
+}
+
+/**
+ * Why a tool result is pruned: over budget, an `always` rule, made stale by a later call, or
+ * (`image`) only its image blocks are old enough to be replaced.
+ */
+export type PruneReason = "size" | "always" | "superseded" | "image";
+
+export interface PruneDecision {
+  index: number;
+  /** Tool name, or `"assistant"` for condensed assistant prose. */
+  toolName: string;
+  toolCallId?: string;
+  reason: PruneReason;
+  /** Set for superseded results. */
+  supersession?: Supersession;
+  originalChars: number;
+  originalTokens: number;
+}
+
+function decide(
+  idx: number,
+  m: { toolName: string; toolCallId?: string; content: ContentBlock[] },
+  reason: PruneReason,
+  supersession?: Supersession,
+): PruneDecision {
+  const size = messageSize(m);
+  return {
+    index: idx,
+    toolName: m.toolName,
+    ...(m.toolCallId !== undefined ? { toolCallId: m.toolCallId } : {}),
+    reason,
+    ...(supersession ? { supersession } : {}),
+    originalChars: size.chars,
+    originalTokens: size.tokens,
+  };
+}
+
+/** The tool results `pruneContextMessages` would replace, in message order, with the reason for each. */
+export function planPrune(messages: unknown[], opts: PruneOptions): PruneDecision[] {
   const userIndexes: number[] = [];
   for (let i = 0; i < messages.length; i++) {
     if ((messages[i] as { role?: string })?.role === "user") {
@@ -43,35 +363,110 @@ export function pruneContextMessages(
     }
   }
 
-  const cutoff =
-    keepRecentTurns === 0
-      ? messages.length
-      : userIndexes.length > keepRecentTurns
-        ? userIndexes[userIndexes.length - keepRecentTurns]
-        : 0;
+  const pinned = protectedPinIndexes(messages, opts.pinnedToolCallIds, opts.pinBudgetTokens);
+  const superseded = opts.supersede
+    ? findSupersededResults(messages, collectToolCalls(messages), opts.repoRoot)
+    : new Map<number, Supersession>();
+
+  const out: PruneDecision[] = [];
+  for (let idx = 0; idx < messages.length; idx++) {
+    const m = messages[idx];
+    if (opts.assistant && isAssistant(m)) {
+      if (idx >= turnCutoff(userIndexes, messages.length, opts.keepRecentTurns)) continue;
+      if (fitsBudget(assistantProse(m), opts.assistant)) continue;
+      const size = messageSize(m);
+      out.push({
+        index: idx,
+        toolName: "assistant",
+        reason: "size",
+        originalChars: size.chars,
+        originalTokens: size.tokens,
+      });
+      continue;
+    }
+    if (!isToolResult(m) || pinned.has(idx)) continue;
+
+    const rule = resolvePruneRule(opts.toolRules, m.toolName);
+    if (rule?.never) continue;
+    const supersession = superseded.get(idx);
+    if (supersession) {
+      out.push(decide(idx, m, "superseded", supersession));
+      continue;
+    }
+
+    if (idx >= turnCutoff(userIndexes, messages.length, rule?.keepRecentTurns ?? opts.keepRecentTurns)) continue;
+
+    // Old screenshots are replaced whichever tool produced them (with `images`); the rest needs a prunable tool.
+    const prunable = !!rule || !!opts.pruneToolNames?.has(m.toolName) || matchesAny(opts.extraTools, m.toolName);
+    const scale = opts.ruleBudgetScale ?? 1;
+    const budget = {
+      maxChars: rule?.maxToolChars !== undefined ? Math.floor(rule.maxToolChars * scale) : opts.maxToolChars,
+      maxTokens: rule?.maxToolTokens !== undefined ? Math.floor(rule.maxToolTokens * scale) : opts.maxToolTokens,
+    };
+    if (prunable && rule?.always) out.push(decide(idx, m, "always"));
+    else if (prunable && !fitsBudget(toolText(m), budget)) out.push(decide(idx, m, "size"));
+    else if (opts.images && m.content.some(isImageBlock)) out.push(decide(idx, m, "image"));
+  }
+  return out;
+}
+
+/** Indexes of the tool results `pruneContextMessages` would replace. */
+export function prunableIndexes(messages: unknown[], opts: PruneOptions): number[] {
+  return planPrune(messages, opts).map((d) => d.index);
+}
+
+/** Replace the results in `plan` (computed from `opts` when omitted) with placeholders. */
+export function pruneContextMessages(
+  messages: unknown[],
+  opts: PruneOptions,
+  plan: PruneDecision[] = planPrune(messages, opts),
+): unknown[] {
+  const decisions = new Map(plan.map((d) => [d.index, d]));
+  const calls = collectToolCalls(messages);
 
   return messages.map((m, idx) => {
-    if (idx >= cutoff) return m;
-    if (!isToolResult(m)) return m;
-    if (!opts.pruneToolNames.has(m.toolName)) return m;
+    const decision = decisions.get(idx);
+    if (decision && isAssistant(m)) return { ...m, content: condenseAssistantContent(m.content) };
+    if (!decision || !isToolResult(m)) return m;
+
+    const details = typeof m.details === "object" && m.details !== null ? (m.details as Record<string, unknown>) : {};
+    const call = m.toolCallId !== undefined ? calls.get(m.toolCallId) : undefined;
+    const source = call ? formatToolCall(m.toolName, call.arguments) : m.toolName;
+    const images = m.content.filter(isImageBlock).length;
+    const replaceImage = (b: ContentBlock) =>
+      isImageBlock(b) ? { type: "text", text: formatImagePlaceholder(b, source) } : b;
+
+    if (decision.reason === "image") {
+      return { ...m, content: m.content.map(replaceImage), details: { ...details, prunedImages: images } };
+    }
 
     const text = toolText(m);
-    if (text.length <= opts.maxToolChars) return m;
+    const supersession = decision.supersession;
+    const blobId = typeof details.blobId === "string" ? details.blobId : opts.blobIds?.get(m.toolCallId ?? "");
+    const summary = supersession
+      ? undefined
+      : summarizeToolOutput({ toolName: m.toolName, args: call?.arguments, text, details }, opts.summaryMaxChars ?? 0);
+    const placeholder = formatPrunedPlaceholder({
+      toolName: m.toolName,
+      call,
+      text,
+      blobId,
+      reason: supersession ? formatSupersession(supersession) : undefined,
+      summary,
+    });
 
+    // Text blocks fold into the placeholder; images get their own stand-ins and other blocks are kept.
     return {
       ...m,
-      content: [
-        {
-          type: "text",
-          text:
-            `(Pruned) ${m.toolName} tool output (${text.length} chars). ` +
-            "Rehydrate by re-running the tool with narrower parameters.",
-        },
-      ],
+      content: [{ type: "text", text: placeholder }, ...m.content.filter((b) => b.type !== "text").map(replaceImage)],
       details: {
-        ...(typeof m.details === "object" && m.details !== null ? m.details : {}),
+        ...details,
+        ...(blobId ? { blobId } : {}),
+        ...(supersession ? { superseded: supersession } : {}),
+        ...(images ? { prunedImages: images } : {}),
         pruned: true,
         originalChars: text.length,
+        originalTokens: estimateTokens(text),
       },
     };
   });
@@ -0,0 +1,166 @@
+export interface RedactionRule {
+  name: string;
+  pattern: RegExp;
+  /** Capture group holding a prefix to keep (e.g. `API_KEY=`); the rest of the match is replaced. */
+  keepPrefixGroup?: number;
+}
+
+export interface RedactOptions {
+  enabled: boolean;
+  builtins: boolean;
+  entropy: boolean;
+  patterns: string[];
+}
+
+export interface Redactor {
+  enabled: boolean;
+  rules: RedactionRule[];
+  entropy: boolean;
+  /** User patterns that failed to compile and were skipped. */
+  invalidPatterns: string[];
+}
+
+export interface RedactResult {
+  text: string;
+  count: number;
+  /** Matches per rule name; empty when nothing was redacted. */
+  byRule: Record<string, number>;
+}
+
+export const BUILTIN_RULES: RedactionRule[] = [
+  {
+    name: "private_key",
+    pattern: /-----BEGIN [A-Z0-9 ]*PRIVATE KEY-----[\s\S]*?-----END [A-Z0-9 ]*PRIVATE KEY-----/g,
+  },
+  { name: "aws_access_key", pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g },
+  {
+    name: "aws_secret_key",
+    pattern: /(aws_?secret_?access_?key["']?\s*[:=]\s*["']?)[A-Za-z0-9/+=]{40}/gi,
+    keepPrefixGroup: 1,
+  },
+  { name: "github_token", pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,255}|github_pat_[A-Za-z0-9_]{22,255})\b/g },
+  {
+    // `.env`-style assignments: GITHUB_TOKEN=..., DB_PASSWORD: ...
+    name: "env_secret",
+    pattern:
+      /(\b[A-Z0-9_]*(?:SECRET|TOKEN|PASSWORD|PASSWD|API_?KEY|PRIVATE_?KEY|ACCESS_?KEY)[A-Z0-9_]*\s*[:=]\s*["']?)(?!\[REDACTED|[A-Z][A-Z0-9_]*(?:[\s"'`,;]|$)|process\.env\.)[^\s"'`()]{8,}(?=[\s"'`,;]|$)/gm,
+    keepPrefixGroup: 1,
+  },
+  {
+    // Quoted literals assigned to secret-ish names: apiKey: "...", const password = '...'
+    name: "secret_literal",
+    pattern:
+      /(\b[A-Za-z0-9_]*(?:secret|token|passw(?:or)?d|api[_-]?key)["']?\s*[:=]\s*["'`])(?!\[REDACTED)[^\s"'`]{8,}/gi,
+    keepPrefixGroup: 1,
+  },
+];
+
+// Long base64/url-safe runs mixing upper, lower and digits. Hex digests (blob ids, commits)
+// lack a character class; "/" is excluded so file paths split into short, low-entropy runs.
+const ENTROPY_CANDIDATE = /[A-Za-z0-9+_=-]{32,}/g;
+const ENTROPY_MIN_BITS = 4.3;
+const ENTROPY_MIN_DIGITS = 3;
+
+export function redactionMarker(rule: string): string {
+  return `[REDACTED:${rule}]`;
+}
+
+export function shannonEntropy(value: string): number {
+  const counts = new Map<string, number>();
+  for (const ch of value) counts.set(ch, (counts.get(ch) ?? 0) + 1);
+
+  let bits = 0;
+  for (const n of counts.values()) {
+    const p = n / value.length;
+    bits -= p * Math.log2(p);
+  }
+  return bits;
+}
+
+function looksHighEntropy(token: string): boolean {
+  if (!/[A-Z]/.test(token) || !/[a-z]/.test(token)) return false;
+  // Long camelCase identifiers mix cases too but rarely carry several digits.
+  if ((token.match(/[0-9]/g)?.length ?? 0) < ENTROPY_MIN_DIGITS) return false;
+  return shannonEntropy(token) >= ENTROPY_MIN_BITS;
+}
+
+export function createRedactor(opts?: Partial<RedactOptions>): Redactor {
+  const rules = opts?.builtins === false ? [] : [...BUILTIN_RULES];
+  const invalidPatterns: string[] = [];
+
+  for (const [i, source] of (opts?.patterns ?? []).entries()) {
+    try {
+      rules.push({ name: `custom_${i + 1}`, pattern: new RegExp(source, "g") });
+    } catch {
+      invalidPatterns.push(source);
+    }
+  }
+
+  return {
+    enabled: opts?.enabled ?? true,
+    rules,
+    entropy: opts?.entropy ?? true,
+    invalidPatterns,
+  };
+}
+
+export function redactText(text: string, redactor: Redactor): RedactResult {
+  const byRule: Record<string, number> = {};
+  if (!redactor.enabled || !text) return { text, count: 0, byRule };
+
+  const bump = (name: string) => {
+    byRule[name] = (byRule[name] ?? 0) + 1;
+  };
+
+  let out = text;
+  for (const rule of redactor.rules) {
+    out = out.replace(rule.pattern, (match: string, ...groups: unknown[]) => {
+      // Zero-length user patterns would otherwise insert markers between every character.
+      if (match.length === 0) return match;
+      bump(rule.name);
+      const prefix = rule.keepPrefixGroup ? groups[rule.keepPrefixGroup - 1] : undefined;
+      return `${typeof prefix === "string" ? prefix : ""}${redactionMarker(rule.name)}`;
+    });
+  }
+
+  if (redactor.entropy) {
+    out = out.replace(ENTROPY_CANDIDATE, (token) => {
+      if (!looksHighEntropy(token)) return token;
+      bump("high_entropy");
+      return redactionMarker("high_entropy");
+    });
+  }
+
+  const count = Object.values(byRule).reduce((sum, n) => sum + n, 0);
+  return { text: out, count, byRule };
+}
+
+export function mergeRedactionCounts(target: Record<string, number>, source: Record<string, number>): void {
+  for (const [name, n] of Object.entries(source)) target[name] = (target[name] ?? 0) + n;
+}
+
+/** Redact every string inside a JSON-like value (log data, blob provenance args). */
+export function redactValue<T>(value: T, redactor: Redactor, counts?: Record<string, number>): T {
+  if (typeof value === "string") {
+    const res = redactText(value, redactor);
+    if (counts) mergeRedactionCounts(counts, res.byRule);
+    return res.text as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => redactValue(item, redactor, counts)) as T;
+  }
+  if (typeof value === "object" && value !== null) {
+    const out: Record<string, unknown> = {};
+    for (const [k, v] of Object.entries(value)) out[k] = redactValue(v, redactor, counts);
+    return out as T;
+  }
+  return value;
+}
+
+/** `details` fields for a tool result; empty when nothing was redacted so quiet results stay unchanged. */
+export function redactionDetails(
+  byRule: Record<string, number>,
+): { redactions?: { count: number; byRule: Record<string, number> } } {
+  const count = Object.values(byRule).reduce((sum, n) => sum + n, 0);
+  return count > 0 ? { redactions: { count, byRule } } : {};
+}
@@ -2,6 +2,8 @@ import path from "node:path";
 
 import type { PiKotaConfig } from "./config.js";
 import type { KotaMcpClient } from "./kota/mcp.js";
+import { KotaSupervisor } from "./kota/supervisor.js";
+import { PruneLedger } from "./prune-ledger.js";
 
 export class InFlightTracker {
   private _count = 0;
@@ -54,6 +56,19 @@ export interface RuntimeState {
 
   mcp: KotaMcpClient | null;
   inFlight: InFlightTracker;
+  /** Restart backoff and circuit breaker for the KotaDB subprocess. */
+  supervisor: KotaSupervisor;
+
+  blobWritesSinceEvict: number;
+  blobEvictPromise: Promise<void> | null;
+
+  /** Tool call ids pinned with `/kota pin`, oldest first. */
+  pinnedToolCallIds: string[];
+  lastToolCallId: string | null;
+  /** Blobs holding the full text of pruned tool results, by toolCallId. */
+  prunedBlobIds: Map<string, string>;
+  /** What the `context` hook pruned this session, for `/kota pruning`. */
+  pruneLedger: PruneLedger;
 }
 
 export function normalizeRepoPath(p: string, baseDir?: string): string {
@@ -77,5 +92,14 @@ export function createInitialRuntimeState(): RuntimeState {
 
     mcp: null,
     inFlight: new InFlightTracker(),
+    supervisor: new KotaSupervisor(),
+
+    blobWritesSinceEvict: 0,
+    blobEvictPromise: null,
+
+    pinnedToolCallIds: [],
+    lastToolCallId: null,
+    prunedBlobIds: new Map(),
+    pruneLedger: new PruneLedger(),
   };
 }
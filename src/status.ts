@@ -1,10 +1,14 @@
 import path from "node:path";
 
+import type { CircuitState } from "./kota/supervisor.js";
+
 export interface StatusInfo {
   kotaStatus: "stopped" | "starting" | "running" | "error";
   repoRoot: string | null;
   indexed: boolean;
   lastError: string | null;
+  /** KotaDB restart circuit breaker; shown unless closed. */
+  circuit?: CircuitState;
 }
 
 export interface StatusTheme {
@@ -45,6 +49,11 @@ export function formatStatusLine(info: StatusInfo, theme: StatusTheme): string {
     parts.push(theme.fg("dim", "|"), indexText);
   }
 
+  if (info.circuit && info.circuit !== "closed") {
+    const color = info.circuit === "open" ? "error" : "warning";
+    parts.push(theme.fg("dim", "|"), theme.fg(color, `circuit ${info.circuit}`));
+  }
+
   if (info.kotaStatus === "error" && info.lastError) {
     const short = info.lastError.length > 40 ? info.lastError.slice(0, 40) + "…" : info.lastError;
     parts.push(theme.fg("dim", "|"), theme.fg("error", short));
@@ -0,0 +1,114 @@
+import path from "node:path";
+import type { ToolCallInfo } from "./placeholder.js";
+
+export interface Supersession {
+  /** What made the older result stale. */
+  by: "read" | "edit" | "write" | "query";
+  /** 1-based user turn of the superseding call. */
+  turn: number;
+}
+
+const EDIT_TOOLS = new Set(["edit", "write"]);
+
+type Rec = Record<string, unknown>;
+
+function isRecord(v: unknown): v is Rec {
+  return typeof v === "object" && v !== null && !Array.isArray(v);
+}
+
+/** The call's path resolved against `root`, so `./src/a.ts`, `src/a.ts` and `/repo/src/a.ts` share one key. */
+function filePath(args: Rec, root: string | undefined): string | undefined {
+  const p = args.path ?? args.file_path;
+  if (typeof p !== "string" || !p) return undefined;
+  return root ? path.relative(root, path.resolve(root, p)) || "." : path.normalize(p);
+}
+
+/** JSON with sorted keys, so `{a, b}` and `{b, a}` compare equal. */
+function stableJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableJson).join(",")}]`;
+  if (isRecord(value)) {
+    const keys = Object.keys(value)
+      .filter((k) => value[k] !== undefined)
+      .sort();
+    return `{${keys.map((k) => `${JSON.stringify(k)}:${stableJson(value[k])}`).join(",")}}`;
+  }
+  return JSON.stringify(value) ?? "null";
+}
+
+function readKeys(args: Rec, root: string | undefined): { own: string; full: string } | null {
+  const file = filePath(args, root);
+  if (!file) return null;
+  const full = `read:${file}`;
+  const ranged = args.offset !== undefined || args.limit !== undefined;
+  return { own: ranged ? `${full}:${stableJson([args.offset, args.limit])}` : full, full };
+}
+
+/**
+ * Older tool results made redundant by later ones: `read`s of a file that was read again or
+ * changed by `edit`/`write` afterwards, and `kota_*` calls repeated with identical arguments.
+ * A whole-file read supersedes any earlier read of the path; a ranged read only the same range.
+ * Relative paths are resolved against `root` (the repo root) when given.
+ */
+export function findSupersededResults(
+  messages: unknown[],
+  calls: Map<string, ToolCallInfo>,
+  root?: string,
+): Map<number, Supersession> {
+  const turns: number[] = [];
+  let turn = 0;
+  for (const m of messages) {
+    if (isRecord(m) && m.role === "user") turn++;
+    turns.push(Math.max(1, turn));
+  }
+
+  const failed = new Set<string>();
+  for (const m of messages) {
+    if (isRecord(m) && m.role === "toolResult" && m.isError === true && typeof m.toolCallId === "string") {
+      failed.add(m.toolCallId);
+    }
+  }
+
+  // Walk backwards, remembering the nearest later event per key.
+  const later = new Map<string, Supersession>();
+  const out = new Map<number, Supersession>();
+
+  for (let i = messages.length - 1; i >= 0; i--) {
+    const m = messages[i];
+    if (!isRecord(m)) continue;
+
+    if (m.role === "assistant" && Array.isArray(m.content)) {
+      for (const block of m.content) {
+        if (!isRecord(block) || block.type !== "toolCall" || typeof block.name !== "string") continue;
+        if (!EDIT_TOOLS.has(block.name) || (typeof block.id === "string" && failed.has(block.id))) continue;
+        const file = isRecord(block.arguments) ? filePath(block.arguments, root) : undefined;
+        if (file) later.set(`read:${file}`, { by: block.name as "edit" | "write", turn: turns[i] });
+      }
+      continue;
+    }
+
+    if (m.role !== "toolResult" || typeof m.toolCallId !== "string" || m.isError === true) continue;
+    const call = calls.get(m.toolCallId);
+    if (!call) continue;
+
+    if (call.name === "read") {
+      const keys = readKeys(call.arguments, root);
+      if (!keys) continue;
+      const hit = later.get(keys.own) ?? later.get(keys.full);
+      if (hit) out.set(i, hit);
+      later.set(keys.own, { by: "read", turn: turns[i] });
+    } else if (call.name.startsWith("kota_")) {
+      const key = `${call.name}:${stableJson(call.arguments)}`;
+      const hit = later.get(key);
+      if (hit) out.set(i, hit);
+      later.set(key, { by: "query", turn: turns[i] });
+    }
+  }
+
+  return out;
+}
+
+export function formatSupersession(s: Supersession): string {
+  return s.by === "query"
+    ? `superseded by identical query at turn ${s.turn}`
+    : `superseded by later ${s.by} at turn ${s.turn}`;
+}
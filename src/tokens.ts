@@ -0,0 +1,61 @@
+export type ContentKind = "prose" | "code" | "json";
+
+/** Returns a token count for `text`; plug in a real tokenizer via `setTokenizer`. */
+export type Tokenizer = (text: string) => number;
+
+/** Output budget in either unit; when both are set the tighter one wins. */
+export interface OutputBudget {
+  maxChars?: number;
+  maxTokens?: number;
+}
+
+// Rough chars-per-token for BPE tokenizers: punctuation-heavy text splits into more tokens.
+const CHARS_PER_TOKEN: Record<ContentKind, number> = {
+  prose: 4,
+  code: 3.3,
+  json: 2.8,
+};
+
+const CODE_SYMBOL_RE = /[{}()[\];=<>:.,"'`/\\|&*+-]/g;
+const CODE_SYMBOL_DENSITY = 0.08;
+// CJK and similar scripts come out at roughly one token per character.
+const WIDE_CHAR_RE = /[\u3040-\u30ff\u3400-\u9fff\uac00-\ud7af]/g;
+
+let tokenizer: Tokenizer | null = null;
+
+export function setTokenizer(fn: Tokenizer | null): void {
+  tokenizer = fn;
+}
+
+export function detectContentKind(text: string): ContentKind {
+  const head = text.trimStart();
+  if (head.startsWith("{") || head.startsWith("[")) return "json";
+  const symbols = text.match(CODE_SYMBOL_RE)?.length ?? 0;
+  return symbols / Math.max(1, text.length) > CODE_SYMBOL_DENSITY ? "code" : "prose";
+}
+
+export function estimateTokens(text: string, kind?: ContentKind): number {
+  if (!text) return 0;
+  if (tokenizer) return tokenizer(text);
+
+  const wide = text.match(WIDE_CHAR_RE)?.length ?? 0;
+  const perToken = CHARS_PER_TOKEN[kind ?? detectContentKind(text)];
+  return Math.ceil((text.length - wide) / perToken) + wide;
+}
+
+/** How many characters of `text` fit in `budget`, using the text's own chars-per-token ratio. */
+export function budgetChars(text: string, budget: OutputBudget): number {
+  let limit = budget.maxChars !== undefined && budget.maxChars > 0 ? budget.maxChars : Infinity;
+
+  if (budget.maxTokens !== undefined && budget.maxTokens > 0) {
+    const tokens = estimateTokens(text);
+    const byTokens = tokens <= budget.maxTokens ? text.length : Math.floor((text.length * budget.maxTokens) / tokens);
+    limit = Math.min(limit, Math.max(1, byTokens));
+  }
+
+  return limit;
+}
+
+export function fitsBudget(text: string, budget: OutputBudget): boolean {
+  return text.length <= budgetChars(text, budget);
+}
@@ -1,3 +1,5 @@
 export function shouldTruncateToolResult(toolName: string): boolean {
+  // kota_blob_read already returns a bounded page of a blob; re-blobbing it would loop.
+  if (toolName === "kota_blob_read") return false;
   return toolName.startsWith("kota_");
 }
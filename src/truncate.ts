@@ -0,0 +1,161 @@
+import { truncateChars } from "./text.js";
+
+export interface TruncateOptions {
+  /** What one record is called in the footer ("results", "lines", …); line cuts through blocks say "lines". */
+  unit?: string;
+  /** Blob holding the full output, named in the footer so the model can page through it. */
+  blobId?: string;
+  /** Share of the budget kept from the end of the output (0 = head only). */
+  tailRatio?: number;
+}
+
+export interface TruncateResult {
+  text: string;
+  truncated: boolean;
+  /** Records dropped (lines, blank-line separated blocks, or JSON array items). */
+  omitted: number;
+  total: number;
+}
+
+export function formatOmittedFooter(omitted: number, unit: string, blobId?: string): string {
+  const where = blobId ? ` (blobId ${blobId})` : "";
+  return `… ${omitted} more ${unit} omitted${where}`;
+}
+
+/** A block cut must keep at least this share of what a line cut keeps to be preferred. */
+const BLOCK_MIN_SHARE = 0.5;
+
+function splitBlocks(input: string): string[] {
+  return input.split(/\n\s*\n/);
+}
+
+/** Greedily take records from the front until `budget` would be exceeded. */
+function takeWithin(records: string[], sep: string, budget: number): string[] {
+  const kept: string[] = [];
+  let used = 0;
+  for (const r of records) {
+    const cost = r.length + (kept.length ? sep.length : 0);
+    if (used + cost > budget) break;
+    kept.push(r);
+    used += cost;
+  }
+  return kept;
+}
+
+/** Keep whole records from the head (and optionally the tail); null when not even one fits. */
+function truncateRecordList(
+  records: string[],
+  sep: string,
+  maxChars: number,
+  opts: TruncateOptions,
+): TruncateResult | null {
+  const unit = opts.unit ?? "lines";
+  const total = records.length;
+
+  // Reserve room for the marker assuming the worst case (every record dropped).
+  const budget = maxChars - formatOmittedFooter(total, unit, opts.blobId).length - sep.length;
+  if (budget <= 0) return null;
+
+  const tailRatio = Math.min(0.9, Math.max(0, opts.tailRatio ?? 0));
+  const tailBudget = Math.floor(budget * tailRatio);
+
+  const tail = tailBudget > 0 ? takeWithin([...records].reverse(), sep, tailBudget).reverse() : [];
+  const headBudget = budget - (tail.length ? tail.join(sep).length + sep.length : 0);
+  const head = takeWithin(records.slice(0, total - tail.length), sep, headBudget);
+  if (head.length === 0 && tail.length === 0) return null;
+
+  const omitted = total - head.length - tail.length;
+  const footer = formatOmittedFooter(omitted, unit, opts.blobId);
+  const parts = tail.length ? [...head, footer, ...tail] : [...head, footer];
+  return { text: parts.join(sep), truncated: true, omitted, total };
+}
+
+/** Largest array inside a JSON value: the top-level array, or the biggest array property of an object. */
+function findTrimTarget(value: unknown): { items: unknown[]; rebuild: (kept: unknown[]) => unknown } | null {
+  if (Array.isArray(value)) return { items: value, rebuild: (kept) => kept };
+  if (typeof value !== "object" || value === null) return null;
+
+  let bestKey: string | null = null;
+  let bestSize = -1;
+  for (const [k, v] of Object.entries(value)) {
+    if (!Array.isArray(v)) continue;
+    const size = JSON.stringify(v).length;
+    if (size > bestSize) {
+      bestKey = k;
+      bestSize = size;
+    }
+  }
+  if (bestKey === null) return null;
+
+  const key = bestKey;
+  const obj = value as Record<string, unknown>;
+  return { items: obj[key] as unknown[], rebuild: (kept) => ({ ...obj, [key]: kept }) };
+}
+
+/** Keep valid JSON by dropping trailing array items rather than cutting an object in half. */
+function truncateJson(input: string, maxChars: number, opts: TruncateOptions): TruncateResult | null {
+  const trimmed = input.trim();
+  if (!trimmed.startsWith("{") && !trimmed.startsWith("[")) return null;
+
+  let value: unknown;
+  try {
+    value = JSON.parse(trimmed);
+  } catch {
+    return null;
+  }
+
+  const target = findTrimTarget(value);
+  if (!target || target.items.length === 0) return null;
+
+  const indent = trimmed.includes("\n") ? 2 : undefined;
+  const total = target.items.length;
+  const unit = opts.unit ?? "items";
+  const reserve = formatOmittedFooter(total, unit, opts.blobId).length + 1;
+
+  // Binary search the largest prefix whose serialization fits.
+  let lo = 0;
+  let hi = total;
+  while (lo < hi) {
+    const mid = Math.ceil((lo + hi) / 2);
+    const size = JSON.stringify(target.rebuild(target.items.slice(0, mid)), null, indent).length;
+    if (size + reserve <= maxChars) lo = mid;
+    else hi = mid - 1;
+  }
+  if (lo === 0) return null;
+
+  const omitted = total - lo;
+  const json = JSON.stringify(target.rebuild(target.items.slice(0, lo)), null, indent);
+  // Re-serializing compact JSON can be enough on its own.
+  if (omitted === 0) return { text: json, truncated: true, omitted, total };
+  return {
+    text: `${json}\n${formatOmittedFooter(omitted, unit, opts.blobId)}`,
+    truncated: true,
+    omitted,
+    total,
+  };
+}
+
+/**
+ * Truncate to `maxChars` on line / record / JSON boundaries, optionally keeping head + tail,
+ * and say how many records were dropped. Falls back to a character cut only when a single
+ * record is larger than the whole budget.
+ */
+export function truncateOutput(input: string, maxChars: number, opts: TruncateOptions = {}): TruncateResult {
+  const lines = input.split("\n");
+  if (input.length <= maxChars) return { text: input, truncated: false, omitted: 0, total: lines.length };
+
+  const json = truncateJson(input, maxChars, opts);
+  if (json) return json;
+
+  // Prefer whole blank-line separated blocks (snippet results, stack traces) unless that keeps far
+  // less than cutting by line, e.g. a short header block followed by one huge block.
+  const blocks = splitBlocks(input);
+  const byBlock = blocks.length > 1 ? truncateRecordList(blocks, "\n\n", maxChars, opts) : null;
+  // When records span several lines, a line cut drops lines rather than whole records: count those.
+  const byLine = truncateRecordList(lines, "\n", maxChars, blocks.length > 1 ? { ...opts, unit: "lines" } : opts);
+  if (byBlock && (!byLine || byBlock.text.length >= byLine.text.length * BLOCK_MIN_SHARE)) return byBlock;
+  if (byLine) return byLine;
+
+  // A single line larger than the whole budget: a character cut is the only option left.
+  return { text: truncateChars(input, maxChars), truncated: true, omitted: 0, total: lines.length };
+}
@@ -1,8 +1,9 @@
-import { readdir, utimes, writeFile } from "node:fs/promises";
+import { mkdir, readdir, utimes, writeFile } from "node:fs/promises";
 import os from "node:os";
 import path from "node:path";
 import { describe, expect, it } from "vitest";
 import { evictBlobs } from "../src/blobs-evict.js";
+import { blobNamespace, repoBlobDir, touchBlobMeta, writeBlobMeta } from "../src/blobs-manifest.js";
 
 async function seedBlob(dir: string, name: string, ageMs: number): Promise<string> {
   const p = path.join(dir, name);
@@ -58,4 +59,119 @@ describe("evictBlobs", () => {
     const result = await evictBlobs({ dir, maxAgeDays: 7, maxSizeBytes: Infinity });
     expect(result.removedCount).toBe(0);
   });
+
+  it("removes a blob's sidecar together with the blob and ignores it for size accounting", async () => {
+    const dir = await import("node:fs/promises").then((fs) =>
+      fs.mkdtemp(path.join(os.tmpdir(), "pi-kota-evict-meta-")),
+    );
+    await seedBlob(dir, "old.txt", 8 * 86_400_000);
+    await writeBlobMeta(dir, "old", { provenance: { toolName: "kota_search" }, originalChars: 1024 });
+    await seedBlob(dir, "new.txt", 1 * 86_400_000);
+    await writeBlobMeta(dir, "new", { provenance: { toolName: "kota_deps" }, originalChars: 1024 });
+
+    const result = await evictBlobs({ dir, maxAgeDays: 7, maxSizeBytes: 1024 });
+
+    expect((await readdir(dir)).sort()).toEqual(["new.meta.json", "new.txt"]);
+    expect(result).toEqual({ removedCount: 1, removedBytes: 1024 });
+  });
+
+  it("cleans up orphaned sidecars", async () => {
+    const dir = await import("node:fs/promises").then((fs) =>
+      fs.mkdtemp(path.join(os.tmpdir(), "pi-kota-evict-orphan-")),
+    );
+    await writeBlobMeta(dir, "gone", { provenance: {}, originalChars: 0 });
+
+    const result = await evictBlobs({ dir, maxAgeDays: 7, maxSizeBytes: Infinity });
+
+    expect(await readdir(dir)).toEqual([]);
+    expect(result.removedCount).toBe(0);
+  });
+
+  it("evicts least-recently-accessed blobs first, not oldest-written", async () => {
+    const dir = await import("node:fs/promises").then((fs) =>
+      fs.mkdtemp(path.join(os.tmpdir(), "pi-kota-evict-lru-")),
+    );
+    await seedBlob(dir, "written-first.txt", 3 * 86_400_000);
+    await writeBlobMeta(dir, "written-first", { provenance: {}, originalChars: 1024 });
+    await seedBlob(dir, "written-last.txt", 1 * 86_400_000);
+    await writeBlobMeta(dir, "written-last", { provenance: {}, originalChars: 1024 });
+
+    // The older blob was read recently; the newer one has not been touched for 2 days.
+    await touchBlobMeta(dir, "written-first", new Date());
+    await touchBlobMeta(dir, "written-last", new Date(Date.now() - 2 * 86_400_000));
+
+    await evictBlobs({ dir, maxAgeDays: 30, maxSizeBytes: 1024 });
+
+    expect((await readdir(dir)).sort()).toEqual(["written-first.meta.json", "written-first.txt"]);
+  });
+
+  it("ages out by last access rather than write time", async () => {
+    const dir = await import("node:fs/promises").then((fs) =>
+      fs.mkdtemp(path.join(os.tmpdir(), "pi-kota-evict-lru-age-")),
+    );
+    await seedBlob(dir, "old-but-read.txt", 10 * 86_400_000);
+    await writeBlobMeta(dir, "old-but-read", { provenance: {}, originalChars: 1024 });
+
+    const result = await evictBlobs({ dir, maxAgeDays: 7, maxSizeBytes: Infinity });
+
+    expect(result.removedCount).toBe(0);
+  });
+
+  it("applies per-repo quotas before the global budget", async () => {
+    const dir = await import("node:fs/promises").then((fs) =>
+      fs.mkdtemp(path.join(os.tmpdir(), "pi-kota-evict-ns-")),
+    );
+    const noisy = repoBlobDir(dir, "/repo/noisy");
+    const quiet = repoBlobDir(dir, "/repo/quiet");
+    await mkdir(noisy, { recursive: true });
+    await mkdir(quiet, { recursive: true });
+
+    // The quiet repo's blob is the oldest, but the noisy repo is over its own quota.
+    await seedBlob(quiet, "q1.txt", 5 * 86_400_000);
+    await seedBlob(noisy, "n1.txt", 3 * 86_400_000);
+    await seedBlob(noisy, "n2.txt", 2 * 86_400_000);
+    await seedBlob(noisy, "n3.txt", 1 * 86_400_000);
+
+    const result = await evictBlobs({ dir, maxAgeDays: 30, maxSizeBytes: Infinity, repoMaxSizeBytes: 2048 });
+
+    expect(result.removedCount).toBe(1);
+    expect((await readdir(noisy)).sort()).toEqual(["n2.txt", "n3.txt"]);
+    expect(await readdir(quiet)).toEqual(["q1.txt"]);
+  });
+
+  it("honours namespace quota overrides", async () => {
+    const dir = await import("node:fs/promises").then((fs) =>
+      fs.mkdtemp(path.join(os.tmpdir(), "pi-kota-evict-ns-quota-")),
+    );
+    const big = repoBlobDir(dir, "/repo/big");
+    await mkdir(big, { recursive: true });
+    await seedBlob(big, "b1.txt", 2 * 86_400_000);
+    await seedBlob(big, "b2.txt", 1 * 86_400_000);
+
+    await evictBlobs({
+      dir,
+      maxAgeDays: 30,
+      maxSizeBytes: Infinity,
+      repoMaxSizeBytes: 1024,
+      namespaceQuotas: { [blobNamespace("/repo/big")]: { maxSizeBytes: 4096 } },
+    });
+
+    expect((await readdir(big)).sort()).toEqual(["b1.txt", "b2.txt"]);
+  });
+
+  it("only touches the given namespace when one is passed", async () => {
+    const dir = await import("node:fs/promises").then((fs) =>
+      fs.mkdtemp(path.join(os.tmpdir(), "pi-kota-evict-ns-only-")),
+    );
+    const mine = repoBlobDir(dir, "/repo/mine");
+    await mkdir(mine, { recursive: true });
+    await seedBlob(dir, "flat-old.txt", 10 * 86_400_000);
+    await seedBlob(mine, "mine-old.txt", 10 * 86_400_000);
+
+    const result = await evictBlobs({ dir, maxAgeDays: 7, maxSizeBytes: Infinity, namespace: blobNamespace("/repo/mine") });
+
+    expect(result.removedCount).toBe(1);
+    expect(await readdir(mine)).toEqual([]);
+    expect((await readdir(dir)).sort()).toEqual(["flat-old.txt", "repos"]);
+  });
 });
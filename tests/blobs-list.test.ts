@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+
+import { formatAge, formatBlobList } from "../src/blobs-list.js";
+import type { BlobEntry } from "../src/blobs-manifest.js";
+
+const now = Date.parse("2026-02-12T12:00:00Z");
+
+function entry(id: string, createdAt: string | null, extra: Partial<BlobEntry> = {}): BlobEntry {
+  return {
+    blobId: id.padEnd(64, "0"),
+    blobPath: `/blobs/${id}.txt`,
+    metaPath: `/blobs/${id}.meta.json`,
+    bytes: 100,
+    mtimeMs: now - 5_000,
+    meta: createdAt
+      ? {
+          blobId: id,
+          createdAt,
+          lastAccessedAt: createdAt,
+          originalChars: 100,
+          toolName: "kota_search",
+          args: { query: "auth" },
+          commit: "0123456789abcdef",
+        }
+      : null,
+    ...extra,
+  };
+}
+
+describe("formatAge", () => {
+  it("picks a compact unit", () => {
+    expect(formatAge(5_000)).toBe("5s");
+    expect(formatAge(5 * 60_000)).toBe("5m");
+    expect(formatAge(5 * 3_600_000)).toBe("5h");
+    expect(formatAge(5 * 86_400_000)).toBe("5d");
+  });
+});
+
+describe("formatBlobList", () => {
+  it("lists newest first with provenance", () => {
+    const text = formatBlobList(
+      [entry("aaa", "2026-02-12T10:00:00Z"), entry("bbb", "2026-02-12T11:00:00Z")],
+      { dir: "/blobs", now },
+    );
+    const lines = text.split("\n");
+
+    expect(lines[0]).toBe("pi-kota blobs (2 total, 200 bytes) in /blobs");
+    expect(lines[1]).toMatch(/^bbb000000000 {2}1h {2}100B {2}kota_search {2}\{"query":"auth"\} {2}@01234567$/);
+    expect(lines[2]).toMatch(/^aaa/);
+  });
+
+  it("falls back to mtime and unknown tool without a sidecar", () => {
+    const text = formatBlobList([entry("ccc", null)], { dir: "/blobs", now });
+    expect(text).toContain("5s  100B  (unknown tool)");
+  });
+
+  it("limits output and reports the remainder", () => {
+    const entries = ["a", "b", "c"].map((id) => entry(id, "2026-02-12T10:00:00Z"));
+    const text = formatBlobList(entries, { dir: "/blobs", now, limit: 2 });
+    expect(text).toContain("… 1 more");
+  });
+
+  it("shows an empty cache", () => {
+    expect(formatBlobList([], { dir: "/blobs", now })).toContain("(empty)");
+  });
+});
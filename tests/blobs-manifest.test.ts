@@ -0,0 +1,131 @@
+import { mkdtemp, readdir, stat, utimes, writeFile } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { describe, expect, it } from "vitest";
+
+import {
+  lastAccessedMs,
+  listBlobs,
+  readBlobMeta,
+  recordBlobAccess,
+  scanBlobDir,
+  touchBlobMeta,
+  writeBlobMeta,
+} from "../src/blobs-manifest.js";
+import { readBlob, writeBlob } from "../src/blobs.js";
+
+describe("blob manifest", () => {
+  it("writes a sidecar with provenance when writeBlob is given one", async () => {
+    const dir = await mkdtemp(path.join(os.tmpdir(), "pi-kota-manifest-"));
+    const res = await writeBlob({
+      dir,
+      content: "hello world",
+      provenance: {
+        toolName: "kota_search",
+        args: { query: "auth" },
+        repoRoot: "/repo",
+        commit: "abc123",
+        sessionId: "s1",
+      },
+    });
+
+    const meta = await readBlobMeta(dir, res.blobId);
+    expect(meta).toMatchObject({
+      blobId: res.blobId,
+      toolName: "kota_search",
+      args: { query: "auth" },
+      repoRoot: "/repo",
+      commit: "abc123",
+      sessionId: "s1",
+      originalChars: 11,
+    });
+    expect(Date.parse(meta!.createdAt)).not.toBeNaN();
+    expect(meta!.lastAccessedAt).toBe(meta!.createdAt);
+  });
+
+  it("does not write a sidecar without provenance", async () => {
+    const dir = await mkdtemp(path.join(os.tmpdir(), "pi-kota-manifest-none-"));
+    const res = await writeBlob({ dir, content: "plain" });
+    expect(await readdir(dir)).toEqual([`${res.blobId}.txt`]);
+    expect(await readBlobMeta(dir, res.blobId)).toBeNull();
+  });
+
+  it("keeps createdAt when identical content is rewritten", async () => {
+    const dir = await mkdtemp(path.join(os.tmpdir(), "pi-kota-manifest-rewrite-"));
+    await writeBlobMeta(dir, "b1", {
+      provenance: { toolName: "kota_deps" },
+      originalChars: 1,
+      now: new Date("2026-01-01T00:00:00Z"),
+    });
+    const meta = await writeBlobMeta(dir, "b1", {
+      provenance: { toolName: "kota_usages" },
+      originalChars: 1,
+      now: new Date("2026-01-02T00:00:00Z"),
+    });
+
+    expect(meta.createdAt).toBe("2026-01-01T00:00:00.000Z");
+    expect(meta.lastAccessedAt).toBe("2026-01-02T00:00:00.000Z");
+    expect(meta.toolName).toBe("kota_usages");
+  });
+
+  it("readBlob bumps lastAccessedAt", async () => {
+    const dir = await mkdtemp(path.join(os.tmpdir(), "pi-kota-manifest-touch-"));
+    const res = await writeBlob({ dir, content: "x", provenance: { toolName: "kota_search" } });
+    await touchBlobMeta(dir, res.blobId, new Date("2020-01-01T00:00:00Z"));
+
+    await readBlob({ dir, blobId: res.blobId });
+
+    const meta = await readBlobMeta(dir, res.blobId);
+    expect(Date.parse(meta!.lastAccessedAt)).toBeGreaterThan(Date.parse("2020-01-01T00:00:00Z"));
+  });
+
+  it("treats corrupt sidecars as missing", async () => {
+    const dir = await mkdtemp(path.join(os.tmpdir(), "pi-kota-manifest-corrupt-"));
+    await writeFile(path.join(dir, "b1.txt"), "x", "utf8");
+    await writeFile(path.join(dir, "b1.meta.json"), "{ nope", "utf8");
+
+    const [entry] = await listBlobs(dir);
+    expect(entry.blobId).toBe("b1");
+    expect(entry.meta).toBeNull();
+  });
+
+  it("folds sidecars into blob entries and reports orphans", async () => {
+    const dir = await mkdtemp(path.join(os.tmpdir(), "pi-kota-manifest-scan-"));
+    const res = await writeBlob({ dir, content: "kept", provenance: { toolName: "kota_search" } });
+    await writeBlobMeta(dir, "gone", { provenance: {}, originalChars: 0 });
+
+    const { entries, orphanMetaPaths } = await scanBlobDir(dir);
+
+    expect(entries.map((e) => e.blobId)).toEqual([res.blobId]);
+    expect(entries[0].meta?.toolName).toBe("kota_search");
+    expect(orphanMetaPaths).toEqual([path.join(dir, "gone.meta.json")]);
+  });
+
+  it("returns an empty list for a missing directory", async () => {
+    expect(await listBlobs(path.join(os.tmpdir(), "pi-kota-manifest-missing-" + Date.now()))).toEqual([]);
+  });
+
+  it("records access on sidecar-less blobs via mtime", async () => {
+    const dir = await mkdtemp(path.join(os.tmpdir(), "pi-kota-manifest-utimes-"));
+    const blobPath = path.join(dir, "plain.txt");
+    await writeFile(blobPath, "x", "utf8");
+    const past = new Date("2020-01-01T00:00:00Z");
+    await utimes(blobPath, past, past);
+
+    await recordBlobAccess(dir, "plain", blobPath);
+
+    expect((await stat(blobPath)).mtimeMs).toBeGreaterThan(past.getTime());
+  });
+
+  it("lastAccessedMs prefers the sidecar timestamp", async () => {
+    const dir = await mkdtemp(path.join(os.tmpdir(), "pi-kota-manifest-lru-"));
+    const blobPath = path.join(dir, "b1.txt");
+    await writeFile(blobPath, "x", "utf8");
+    const past = new Date("2020-01-01T00:00:00Z");
+    await utimes(blobPath, past, past);
+    await writeBlobMeta(dir, "b1", { provenance: {}, originalChars: 1, now: new Date("2021-06-01T00:00:00Z") });
+
+    const [entry] = await listBlobs(dir);
+    expect(lastAccessedMs(entry)).toBe(Date.parse("2021-06-01T00:00:00Z"));
+  });
+});
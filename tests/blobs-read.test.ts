@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest";
+import { sliceBlob } from "../src/blobs-read.js";
+
+const content = Array.from({ length: 10 }, (_, i) => `line ${i + 1}`).join("\n") + "\n";
+
+describe("sliceBlob", () => {
+  it("returns a line range with a next-page hint", () => {
+    const slice = sliceBlob(content, { startLine: 2, endLine: 4, maxChars: 1000 });
+    expect(slice.mode).toBe("lines");
+    expect(slice.text).toBe("line 2\nline 3\nline 4");
+    expect(slice.range).toBe("lines 2-4 of 10");
+    expect(slice.next).toBeUndefined();
+  });
+
+  it("stops at maxChars on a line boundary and points at the next line", () => {
+    const slice = sliceBlob(content, { maxChars: 15 });
+    expect(slice.text).toBe("line 1\nline 2");
+    expect(slice.next).toEqual({ startLine: 3 });
+  });
+
+  it("clips a single oversized line so paging still makes progress", () => {
+    const slice = sliceBlob("x".repeat(100) + "\nshort", { maxChars: 10 });
+    expect(slice.text).toBe("xxxxxxxxx…");
+    expect(slice.next).toEqual({ startLine: 2 });
+  });
+
+  it("switches to byte mode when offset/length are given", () => {
+    const slice = sliceBlob(content, { offset: 7, length: 6, maxChars: 1000 });
+    expect(slice.mode).toBe("bytes");
+    expect(slice.text).toBe("line 2");
+    expect(slice.next).toEqual({ offset: 13, length: 6 });
+  });
+
+  it("caps byte length at maxChars", () => {
+    const slice = sliceBlob(content, { offset: 0, length: 500, maxChars: 5 });
+    expect(slice.text).toBe("line ");
+    expect(slice.next).toEqual({ offset: 5, length: 5 });
+  });
+
+  it("greps matching lines with line numbers", () => {
+    const slice = sliceBlob(content, { pattern: "line (3|7)$", maxChars: 1000 });
+    expect(slice.mode).toBe("grep");
+    expect(slice.text).toBe("3: line 3\n7: line 7");
+    expect(slice.next).toBeUndefined();
+  });
+
+  it("pages grep results from the last scanned line", () => {
+    const slice = sliceBlob(content, { pattern: "line", maxChars: 20 });
+    expect(slice.text).toBe("1: line 1\n2: line 2");
+    expect(slice.next).toEqual({ startLine: 3 });
+  });
+
+  it("never splits a multi-byte character in byte mode", () => {
+    const text = "aé€😀b";
+    const mid = sliceBlob(text, { offset: 2, length: 4, maxChars: 1000 });
+    expect(mid.text).toBe("é");
+    expect(mid.range).toBe("bytes 1-3 of 11");
+    expect(mid.next).toEqual({ offset: 3, length: 4 });
+
+    const narrow = sliceBlob(text, { offset: 6, length: 1, maxChars: 1000 });
+    expect(narrow.text).toBe("😀");
+    expect(narrow.next).toEqual({ offset: 10, length: 1 });
+  });
+
+  it("matches long or nested-quantifier patterns literally", () => {
+    const text = "(a+)+$\naaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaab\n";
+    expect(sliceBlob(text, { pattern: "(a+)+$", maxChars: 1000 }).text).toBe("1: (a+)+$");
+    const long = "x".repeat(300);
+    expect(sliceBlob(`${long}(\nx\n`, { pattern: `${long}(`, maxChars: 1000 }).text).toBe(`1: ${long}(`);
+  });
+
+  it("rejects invalid patterns", () => {
+    expect(() => sliceBlob(content, { pattern: "(", maxChars: 100 })).toThrow(/invalid pattern/);
+  });
+});
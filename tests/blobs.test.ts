@@ -1,9 +1,12 @@
-import { mkdir, mkdtemp, readFile } from "node:fs/promises";
+import { mkdir, mkdtemp, readFile, readdir, writeFile } from "node:fs/promises";
 import os from "node:os";
 import path from "node:path";
 import { describe, expect, it } from "vitest";
 
-import { writeBlob } from "../src/blobs.js";
+import { gunzipSync } from "node:zlib";
+
+import { isBlobId, readBlob, readBlobFile, writeBlob } from "../src/blobs.js";
+import { listBlobs, repoBlobDir } from "../src/blobs-manifest.js";
 
 describe("writeBlob", () => {
   it("writes <sha256>.txt", async () => {
@@ -63,3 +66,90 @@ describe("writeBlob edge cases", () => {
     expect(res.blobPath).toMatch(/\.json$/);
   });
 });
+
+describe("readBlob", () => {
+  it("reads back a blob written by writeBlob", async () => {
+    const dir = await mkdtemp(path.join(os.tmpdir(), "pi-kota-blobs-read-"));
+    const written = await writeBlob({ dir, content: "full output" });
+
+    const res = await readBlob({ dir, blobId: written.blobId });
+
+    expect(res.content).toBe("full output");
+    expect(res.blobPath).toBe(written.blobPath);
+  });
+
+  it("finds .json blobs", async () => {
+    const dir = await mkdtemp(path.join(os.tmpdir(), "pi-kota-blobs-read-json-"));
+    const written = await writeBlob({ dir, content: '{"a":1}', ext: ".json" });
+
+    const res = await readBlob({ dir, blobId: written.blobId });
+    expect(res.content).toBe('{"a":1}');
+  });
+
+  it("finds blobs stored in another repo namespace", async () => {
+    const dir = await mkdtemp(path.join(os.tmpdir(), "pi-kota-blobs-read-ns-"));
+    const other = repoBlobDir(dir, "/repo/other");
+    const written = await writeBlob({ dir: other, content: "from another repo" });
+
+    const res = await readBlob({ dir, blobId: written.blobId, preferDir: repoBlobDir(dir, "/repo/mine") });
+
+    expect(res.content).toBe("from another repo");
+    expect(res.blobPath).toBe(written.blobPath);
+  });
+
+  it("rejects ids that are not sha256 digests", async () => {
+    const dir = await mkdtemp(path.join(os.tmpdir(), "pi-kota-blobs-read-bad-"));
+
+    expect(isBlobId("../../etc/passwd")).toBe(false);
+    await expect(readBlob({ dir, blobId: "../../etc/passwd" })).rejects.toThrow(/invalid blob id/);
+    await expect(readBlob({ dir, blobId: "A".repeat(64) })).rejects.toThrow(/invalid blob id/);
+  });
+
+  it("throws when the blob is not in the directory", async () => {
+    const dir = await mkdtemp(path.join(os.tmpdir(), "pi-kota-blobs-read-missing-"));
+    await expect(readBlob({ dir, blobId: "a".repeat(64) })).rejects.toThrow(/not found/);
+  });
+});
+
+describe("compressed blobs", () => {
+  const content = "src/auth/login.ts:12 export function login() {}\n".repeat(200);
+
+  it("writes gzip blobs that read back transparently", async () => {
+    const dir = await mkdtemp(path.join(os.tmpdir(), "pi-kota-blobs-gzip-"));
+    const res = await writeBlob({ dir, content, compression: "gzip" });
+
+    expect(res.blobPath).toBe(path.join(dir, `${res.blobId}.txt.gz`));
+    expect(res.storedBytes).toBeLessThan(res.bytes);
+    expect(gunzipSync(await readFile(res.blobPath)).toString("utf8")).toBe(content);
+    expect((await readBlob({ dir, blobId: res.blobId })).content).toBe(content);
+  });
+
+  it("writes brotli blobs that read back transparently", async () => {
+    const dir = await mkdtemp(path.join(os.tmpdir(), "pi-kota-blobs-br-"));
+    const res = await writeBlob({ dir, content, compression: "brotli" });
+
+    expect(res.blobPath).toMatch(/\.txt\.br$/);
+    expect(await readBlobFile(res.blobPath)).toBe(content);
+    expect((await readBlob({ dir, blobId: res.blobId })).content).toBe(content);
+  });
+
+  it("keeps existing plain .txt blobs readable", async () => {
+    const dir = await mkdtemp(path.join(os.tmpdir(), "pi-kota-blobs-legacy-"));
+    const blobId = "b".repeat(64);
+    await writeFile(path.join(dir, `${blobId}.txt`), "legacy", "utf8");
+
+    expect((await readBlob({ dir, blobId })).content).toBe("legacy");
+  });
+
+  it("replaces a copy stored under a different compression and accounts on-disk bytes", async () => {
+    const dir = await mkdtemp(path.join(os.tmpdir(), "pi-kota-blobs-switch-"));
+    await writeBlob({ dir, content });
+    const res = await writeBlob({ dir, content, compression: "gzip" });
+
+    expect(await readdir(dir)).toEqual([`${res.blobId}.txt.gz`]);
+
+    const [entry] = await listBlobs(dir);
+    expect(entry.blobId).toBe(res.blobId);
+    expect(entry.bytes).toBe(res.storedBytes);
+  });
+});
@@ -0,0 +1,19 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_BUDGETS, FALLBACK_BUDGET, formatBudgets, resolveBudget } from "../src/budgets.js";
+
+describe("resolveBudget", () => {
+  it("prefers configured budgets, then defaults, then the fallback", () => {
+    const custom = { maxChars: 100, maxTokens: 25 };
+    expect(resolveBudget({ kota_deps: custom }, "kota_deps")).toEqual(custom);
+    expect(resolveBudget(undefined, "kota_impact")).toEqual(DEFAULT_BUDGETS.kota_impact);
+    expect(resolveBudget(DEFAULT_BUDGETS, "kota_index")).toEqual(FALLBACK_BUDGET);
+  });
+});
+
+describe("formatBudgets", () => {
+  it("lists every budget key", () => {
+    const line = formatBudgets(undefined);
+    expect(line).toContain("kota_search=5000c/1250t");
+    expect(line).toContain("autoContext=4000c/1000t");
+  });
+});
@@ -2,7 +2,7 @@ import { mkdtemp, mkdir, writeFile } from "node:fs/promises";
 import os from "node:os";
 import path from "node:path";
 import { describe, expect, it } from "vitest";
-import { DEFAULT_CONFIG, loadConfig, mergeConfig } from "../src/config.js";
+import { DEFAULT_CONFIG, loadConfig, mergeConfig, sanitizeConfig } from "../src/config.js";
 
 describe("config", () => {
   it("deep merges overrides into defaults", () => {
@@ -22,6 +22,141 @@ describe("config", () => {
     expect(DEFAULT_CONFIG.kota.args).toContain("kotadb@next");
   });
 
+  it("accepts a blobs.compression mode", async () => {
+    const root = await mkdtemp(path.join(os.tmpdir(), "pi-kota-config-compression-"));
+    await mkdir(path.join(root, ".pi"), { recursive: true });
+    await writeFile(path.join(root, ".pi", "pi-kota.json"), JSON.stringify({ blobs: { compression: "brotli" } }), "utf8");
+
+    const { config } = await loadConfig({ cwd: root, projectRoot: root, homeDir: root });
+
+    expect(DEFAULT_CONFIG.blobs.compression).toBe("none");
+    expect(config.blobs.compression).toBe("brotli");
+  });
+
+  it("sanitizes per-repo blob quotas and expands ~ in repo keys", async () => {
+    const root = await mkdtemp(path.join(os.tmpdir(), "pi-kota-config-repos-"));
+    await mkdir(path.join(root, ".pi"), { recursive: true });
+    await writeFile(
+      path.join(root, ".pi", "pi-kota.json"),
+      JSON.stringify({
+        blobs: {
+          repoMaxSizeBytes: 4096,
+          repos: { "~/code/app": { maxSizeBytes: 1024, maxAgeDays: 0 }, "/srv/bad": "nope" },
+        },
+      }),
+      "utf8",
+    );
+
+    const { config } = await loadConfig({ cwd: root, projectRoot: root, homeDir: root });
+
+    expect(config.blobs.repoMaxSizeBytes).toBe(4096);
+    expect(config.blobs.repos).toEqual({ [path.join(root, "code/app")]: { maxSizeBytes: 1024 } });
+  });
+
+  it("loads redact settings and falls back for invalid patterns", async () => {
+    const root = await mkdtemp(path.join(os.tmpdir(), "pi-kota-config-redact-"));
+    await mkdir(path.join(root, ".pi"), { recursive: true });
+    await writeFile(
+      path.join(root, ".pi", "pi-kota.json"),
+      JSON.stringify({ redact: { entropy: false, patterns: ["internal-\\d+"] } }),
+      "utf8",
+    );
+
+    const { config } = await loadConfig({ cwd: root, projectRoot: root, homeDir: root });
+    expect(config.redact).toEqual({ enabled: true, builtins: true, entropy: false, patterns: ["internal-\\d+"] });
+
+    const sanitized = sanitizeConfig({ redact: { patterns: [1, 2] } });
+    expect(sanitized.redact.patterns).toEqual(DEFAULT_CONFIG.redact.patterns);
+  });
+
+  it("merges per-tool budgets and drops invalid values", async () => {
+    const root = await mkdtemp(path.join(os.tmpdir(), "pi-kota-config-budgets-"));
+    await mkdir(path.join(root, ".pi"), { recursive: true });
+    await writeFile(
+      path.join(root, ".pi", "pi-kota.json"),
+      JSON.stringify({ budgets: { kota_impact: { maxChars: 12000 }, kota_search: { maxTokens: 0 }, bogus: {} } }),
+      "utf8",
+    );
+
+    const { config } = await loadConfig({ cwd: root, projectRoot: root, homeDir: root });
+    expect(config.budgets.kota_impact).toEqual({
+      maxChars: 12000,
+      maxTokens: DEFAULT_CONFIG.budgets.kota_impact.maxTokens,
+    });
+    expect(config.budgets.kota_search).toEqual(DEFAULT_CONFIG.budgets.kota_search);
+    expect(config.budgets).not.toHaveProperty("bogus");
+  });
+
+  it("sanitizes prune.tools rules and merges them with the defaults", () => {
+    const merged = mergeConfig(DEFAULT_CONFIG, {
+      prune: {
+        tools: {
+          "mcp_*": { maxToolChars: 2000, keepRecentTurns: -1 },
+          kota_impact: { never: true, always: true },
+          bad: "nope",
+        },
+      },
+    } as any);
+    const config = sanitizeConfig(merged);
+
+    expect(config.prune.tools.read).toEqual({});
+    expect(config.prune.tools["mcp_*"]).toEqual({ maxToolChars: 2000 });
+    expect(config.prune.tools.kota_impact).toEqual({ never: true });
+    expect(config.prune.tools).not.toHaveProperty("bad");
+  });
+
+  it("layers user prune.tools rules over the defaults", () => {
+    const config = sanitizeConfig({ prune: { tools: { "mcp_*": { maxToolChars: 2000 }, read: { never: true } } } });
+    expect(config.prune.tools).toEqual({
+      ...DEFAULT_CONFIG.prune.tools,
+      "mcp_*": { maxToolChars: 2000 },
+      read: { never: true },
+    });
+  });
+
+  it("leaves prune.maxToolTokens unset unless configured", () => {
+    expect(DEFAULT_CONFIG.prune.maxToolTokens).toBeUndefined();
+    expect(sanitizeConfig({}).prune).not.toHaveProperty("maxToolTokens");
+    expect(sanitizeConfig({ prune: { maxToolTokens: 250 } }).prune.maxToolTokens).toBe(250);
+    const global = sanitizeConfig({ prune: { maxToolTokens: 250 } });
+    expect(sanitizeConfig({ prune: { maxToolTokens: -5 } }, global).prune.maxToolTokens).toBe(250);
+  });
+
+  it("sanitizes and sorts prune.tiers", () => {
+    const config = sanitizeConfig({
+      prune: {
+        tiers: [
+          { atPercent: 90, keepRecentTurns: 0, tools: ["mcp_*"] },
+          { atPercent: 60, maxToolChars: 900, tools: [1] },
+          { atPercent: 150 },
+          "bad",
+        ],
+      },
+    });
+    expect(config.prune.tiers).toEqual([
+      { atPercent: 60, maxToolChars: 900 },
+      { atPercent: 90, keepRecentTurns: 0, tools: ["mcp_*"] },
+    ]);
+    expect(sanitizeConfig({}).prune.tiers).toEqual(DEFAULT_CONFIG.prune.tiers);
+  });
+
+  it("merges and sanitizes prune.assistant", () => {
+    const merged = mergeConfig(DEFAULT_CONFIG, { prune: { assistant: { enabled: true, maxTokens: -5 } } } as any);
+    expect(sanitizeConfig(merged).prune.assistant).toEqual({ enabled: true, maxChars: 2000, maxTokens: 500 });
+    expect(sanitizeConfig({ prune: { assistant: "on" } }).prune.assistant).toEqual(DEFAULT_CONFIG.prune.assistant);
+  });
+
+  it("merges and sanitizes kota.restart", () => {
+    const merged = mergeConfig(DEFAULT_CONFIG, { kota: { restart: { maxFailures: 5, baseDelayMs: -1 } } } as any);
+    expect(sanitizeConfig(merged).kota.restart).toEqual({ ...DEFAULT_CONFIG.kota.restart, maxFailures: 5 });
+    expect(sanitizeConfig({ kota: { restart: { maxFailures: 0 } } }).kota.restart.maxFailures).toBe(3);
+  });
+
+  it("merges and sanitizes kota.timeouts", () => {
+    const merged = mergeConfig(DEFAULT_CONFIG, { kota: { timeouts: { search: 5000, index: 0 } } } as any);
+    expect(sanitizeConfig(merged).kota.timeouts).toEqual({ ...DEFAULT_CONFIG.kota.timeouts, search: 5000 });
+  });
+
   it("includes a default connectTimeoutMs", () => {
     expect(DEFAULT_CONFIG.kota.connectTimeoutMs).toBeGreaterThan(0);
   });
@@ -45,7 +180,15 @@ describe("config", () => {
       path.join(root, ".pi", "pi-kota.json"),
       JSON.stringify({
         kota: { connectTimeoutMs: "bad", confirmIndex: "no", command: 42, args: "x" },
-        prune: { maxToolChars: "nope", enabled: "true", keepRecentTurns: "2", adaptive: "yes" },
+        prune: {
+          maxToolChars: "nope",
+          maxToolTokens: 0,
+          enabled: "true",
+          keepRecentTurns: "2",
+          adaptive: "yes",
+          summaryMaxChars: -1,
+          images: "no",
+        },
         blobs: { enabled: "true", dir: 100 },
       }),
       "utf8",
@@ -55,10 +198,13 @@ describe("config", () => {
 
     expect(config.kota.connectTimeoutMs).toBe(DEFAULT_CONFIG.kota.connectTimeoutMs);
     expect(config.prune.maxToolChars).toBe(DEFAULT_CONFIG.prune.maxToolChars);
+    expect(config.prune.maxToolTokens).toBeUndefined();
     expect(config.kota.confirmIndex).toBe(DEFAULT_CONFIG.kota.confirmIndex);
     expect(config.prune.enabled).toBe(DEFAULT_CONFIG.prune.enabled);
     expect(config.prune.keepRecentTurns).toBe(DEFAULT_CONFIG.prune.keepRecentTurns);
     expect(config.prune.adaptive).toBe(DEFAULT_CONFIG.prune.adaptive);
+    expect(config.prune.summaryMaxChars).toBe(DEFAULT_CONFIG.prune.summaryMaxChars);
+    expect(config.prune.images).toBe(true);
     expect(config.blobs.enabled).toBe(DEFAULT_CONFIG.blobs.enabled);
     expect(config.blobs.dir).toBe(path.join(root, ".pi/cache/pi-kota/blobs"));
   });
@@ -116,7 +262,7 @@ describe("config", () => {
           args: ["ok", 1],
         },
         prune: { enabled: true, keepRecentTurns: -1, maxToolChars: 0, adaptive: "no" },
-        blobs: { enabled: true, maxAgeDays: 0, maxSizeBytes: -1 },
+        blobs: { enabled: true, maxAgeDays: 0, maxSizeBytes: -1, compression: "zip" },
         log: { enabled: true, path: "~/.pi/cache/pi-kota/custom.jsonl" },
       }),
       "utf8",
@@ -135,6 +281,8 @@ describe("config", () => {
     expect(config.prune.maxToolChars).toBe(DEFAULT_CONFIG.prune.maxToolChars);
     expect(config.prune.adaptive).toBe(DEFAULT_CONFIG.prune.adaptive);
 
+    expect(config.blobs.compression).toBe(DEFAULT_CONFIG.blobs.compression);
+
     // tilde expansion should be applied for log path
     expect(config.log.path).toBe(path.join(root, ".pi/cache/pi-kota/custom.jsonl"));
   });
@@ -1,3 +1,6 @@
+import { mkdtemp } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
 import { describe, expect, it, vi } from "vitest";
 
 const { getConfig, setConfig } = vi.hoisted(() => {
@@ -36,6 +39,18 @@ const { behavior, resetBehavior } = vi.hoisted(() => {
     connectThrows: false,
     listToolsThrows: false,
     callToolThrows: false,
+    searchCrashes: 0,
+    searchExits: 0,
+    // Number of KotaMcpClient.close() calls, i.e. subprocesses torn down.
+    closes: 0,
+    // Text returned by `search` instead of the default one-liner.
+    searchText: null as string | null,
+    // Set to a pending promise to make `search` hang, ignoring its abort signal, until it settles.
+    searchHang: null as Promise<void> | null,
+    searchHanging: false,
+    // Same for `index_repository`, the auto-index run before the first query.
+    indexHang: null as Promise<void> | null,
+    indexHanging: false,
   };
   return {
     behavior,
@@ -43,6 +58,14 @@ const { behavior, resetBehavior } = vi.hoisted(() => {
       behavior.connectThrows = false;
       behavior.listToolsThrows = false;
       behavior.callToolThrows = false;
+      behavior.searchCrashes = 0;
+      behavior.searchExits = 0;
+      behavior.closes = 0;
+      behavior.searchText = null;
+      behavior.searchHang = null;
+      behavior.searchHanging = false;
+      behavior.indexHang = null;
+      behavior.indexHanging = false;
     },
   };
 });
@@ -58,7 +81,7 @@ vi.mock("../src/kota/mcp.js", () => {
 
   class KotaMcpClient {
     connected = false;
-    constructor(_opts: any) {}
+    constructor(private readonly opts: any) {}
     async connect() {
       if (behavior.connectThrows) throw new Error("connect failed");
       this.connected = true;
@@ -79,12 +102,37 @@ vi.mock("../src/kota/mcp.js", () => {
     }
     async callTool(name: string, _args: any) {
       if (behavior.callToolThrows) throw new Error("callTool failed");
+      if (name === "index_repository" && behavior.indexHang) {
+        behavior.indexHanging = true;
+        await behavior.indexHang;
+        throw new Error("aborted");
+      }
+      if (name === "search" && behavior.searchHang) {
+        behavior.searchHanging = true;
+        await behavior.searchHang;
+        throw new Error("aborted");
+      }
+      if (name === "search" && behavior.searchExits > 0) {
+        // Like the real client: the child exits, onclose drops the client, then the SDK rejects the request.
+        behavior.searchExits--;
+        this.connected = false;
+        this.opts.onExit?.();
+        throw Object.assign(new Error("MCP error -32000: Connection closed"), { code: -32000 });
+      }
+      if (name === "search" && behavior.searchCrashes > 0) {
+        behavior.searchCrashes--;
+        throw Object.assign(new Error("write EPIPE"), { code: "EPIPE" });
+      }
+      if (name === "search" && behavior.searchText !== null) {
+        return { content: [{ type: "text", text: behavior.searchText }], raw: { ok: true } };
+      }
       return { content: [{ type: "text", text: `${name}: ok` }], raw: { ok: true } };
     }
     disconnect() {
       this.connected = false;
     }
     async close() {
+      behavior.closes++;
       this.connected = false;
     }
   }
@@ -99,6 +147,8 @@ const { evictSpy } = vi.hoisted(() => {
 
 vi.mock("../src/blobs-evict.js", () => ({ evictBlobs: evictSpy }));
 
+import { writeBlob } from "../src/blobs.js";
+import { blobNamespace } from "../src/blobs-manifest.js";
 import extension from "../src/index.js";
 import { createMockApi } from "./helpers/mock-api.js";
 
@@ -201,6 +251,163 @@ describe("index.ts branch coverage", () => {
     await api.fire("session_shutdown", {}, ctx);
   });
 
+  it("retries an idempotent call once on a restarted subprocess after a crash", async () => {
+    resetBehavior();
+    behavior.searchCrashes = 1;
+    const prev = getConfig();
+    setConfig({
+      ...prev,
+      kota: {
+        ...prev.kota,
+        restart: { maxFailures: 3, windowMs: 60_000, baseDelayMs: 0, maxDelayMs: 0, cooldownMs: 0 },
+      },
+    });
+
+    const api = createMockApi();
+    installGitExecMocks(api, "HEAD-1");
+    extension(api.pi as any);
+
+    const ctx = makeCtx();
+    await api.fire("session_start", {}, ctx);
+
+    const search = api.tools.get("kota_search");
+    const res = await search.execute("id", { query: "x", output: "paths", limit: 1 }, undefined, undefined, ctx);
+    expect(res.content[0].text).toContain("search: ok");
+    // EPIPE doesn't mean the child exited: the crashed client is closed so its process can't linger.
+    expect(behavior.closes).toBe(1);
+
+    await api.commands.get("kota").handler("status", ctx);
+    expect(String(ctx.ui.notify.mock.calls.at(-1)?.[0])).toContain("supervisor: circuit closed (1 failure(s)");
+
+    await api.fire("session_shutdown", {}, ctx);
+    setConfig(prev);
+  });
+
+  it("retries an idempotent call when the subprocess exits mid-call", async () => {
+    resetBehavior();
+    behavior.searchExits = 1;
+    const prev = getConfig();
+    setConfig({
+      ...prev,
+      kota: {
+        ...prev.kota,
+        restart: { maxFailures: 3, windowMs: 60_000, baseDelayMs: 0, maxDelayMs: 0, cooldownMs: 0 },
+      },
+    });
+
+    const api = createMockApi();
+    installGitExecMocks(api, "HEAD-1");
+    extension(api.pi as any);
+
+    const ctx = makeCtx();
+    await api.fire("session_start", {}, ctx);
+
+    const search = api.tools.get("kota_search");
+    const res = await search.execute("id", { query: "x", output: "paths", limit: 1 }, undefined, undefined, ctx);
+    expect(res.content[0].text).toContain("search: ok");
+    expect(behavior.searchExits).toBe(0);
+
+    await api.commands.get("kota").handler("status", ctx);
+    expect(String(ctx.ui.notify.mock.calls.at(-1)?.[0])).toContain("supervisor: circuit closed (1 failure(s)");
+
+    await api.fire("session_shutdown", {}, ctx);
+    setConfig(prev);
+  });
+
+  it("cancelling a hung call frees its in-flight slot so shutdown does not wait for it", async () => {
+    resetBehavior();
+    let unhang!: () => void;
+    behavior.searchHang = new Promise<void>((resolve) => (unhang = resolve));
+
+    const api = createMockApi();
+    installGitExecMocks(api, "HEAD-1");
+    extension(api.pi as any);
+
+    const ctx = makeCtx();
+    await api.fire("session_start", {}, ctx);
+
+    const controller = new AbortController();
+    const search = api.tools.get("kota_search");
+    const pending = search.execute("id", { query: "x" }, controller.signal, undefined, ctx);
+    const settled = expect(pending).rejects.toThrow(/aborted/);
+    await vi.waitFor(() => expect(behavior.searchHanging).toBe(true));
+
+    controller.abort();
+    const t0 = Date.now();
+    await api.fire("session_shutdown", {}, ctx);
+    expect(Date.now() - t0).toBeLessThan(1000);
+
+    unhang();
+    await settled;
+    await expect(search.execute("id", { query: "x" }, controller.signal, undefined, ctx)).rejects.toThrow(
+      "pi-kota: search cancelled",
+    );
+  });
+
+  it("cancelling during auto-indexing rejects the query at once", async () => {
+    resetBehavior();
+    let unhang!: () => void;
+    behavior.indexHang = new Promise<void>((resolve) => (unhang = resolve));
+
+    const api = createMockApi();
+    installGitExecMocks(api, "HEAD-1");
+    extension(api.pi as any);
+
+    const ctx = makeCtx();
+    await api.fire("session_start", {}, ctx);
+
+    const controller = new AbortController();
+    const search = api.tools.get("kota_search");
+    const pending = search.execute("id", { query: "x" }, controller.signal, undefined, ctx);
+    const settled = expect(pending).rejects.toThrow(/aborted|cancelled/);
+    await vi.waitFor(() => expect(behavior.indexHanging).toBe(true));
+
+    controller.abort();
+    const t0 = Date.now();
+    await api.fire("session_shutdown", {}, ctx);
+    expect(Date.now() - t0).toBeLessThan(1000);
+
+    unhang();
+    await settled;
+  });
+
+  it("opens the restart circuit after repeated connect failures until /kota restart", async () => {
+    resetBehavior();
+    behavior.connectThrows = true;
+    const prev = getConfig();
+    setConfig({
+      ...prev,
+      kota: {
+        ...prev.kota,
+        restart: { maxFailures: 2, windowMs: 60_000, baseDelayMs: 0, maxDelayMs: 0, cooldownMs: 60_000 },
+      },
+    });
+
+    const api = createMockApi();
+    installGitExecMocks(api, "HEAD-1");
+    extension(api.pi as any);
+
+    const ctx = makeCtx();
+    await api.fire("session_start", {}, ctx);
+
+    const search = api.tools.get("kota_search");
+    const call = () => search.execute("id", { query: "x", output: "paths", limit: 1 }, undefined, undefined, ctx);
+    await expect(call()).rejects.toThrow(/connect failed/);
+    await expect(call()).rejects.toThrow(/connect failed/);
+    await expect(call()).rejects.toThrow(/KotaDB keeps crashing; circuit open/);
+
+    const statusStrings = ctx.ui.setStatus.mock.calls.map((c: any[]) => String(c[1]));
+    expect(statusStrings.at(-1)).toContain("circuit open");
+
+    behavior.connectThrows = false;
+    await api.commands.get("kota").handler("restart", ctx);
+    const res = await call();
+    expect(res.content[0].text).toContain("search: ok");
+
+    await api.fire("session_shutdown", {}, ctx);
+    setConfig(prev);
+  });
+
   it("context handler prunes when enabled", async () => {
     resetBehavior();
     setConfig({
@@ -232,6 +439,196 @@ describe("index.ts branch coverage", () => {
     await api.fire("session_shutdown", {}, ctx);
   });
 
+  it("context handler widens pruning at high context-window usage", async () => {
+    resetBehavior();
+    const prev = getConfig();
+    setConfig({ ...prev, prune: { enabled: true, keepRecentTurns: 2, maxToolChars: 1200, adaptive: true } });
+
+    const api = createMockApi();
+    installGitExecMocks(api, "HEAD-1");
+    extension(api.pi as any);
+
+    const ctx = makeCtx();
+    await api.fire("session_start", {}, ctx);
+
+    const messages = [
+      { role: "user", content: "a" },
+      {
+        role: "toolResult",
+        toolCallId: "d1",
+        toolName: "kota_deps",
+        content: [{ type: "text", text: "d".repeat(600) }],
+      },
+      { role: "user", content: "b" },
+      { role: "user", content: "c" },
+    ];
+
+    ctx.getContextUsage.mockReturnValue({ tokens: 10_000, contextWindow: 200_000, percent: 5 });
+    const [low] = await api.fire("context", { messages }, ctx);
+    expect(low.messages[1].content[0].text).toBe("d".repeat(600));
+
+    ctx.getContextUsage.mockReturnValue({ tokens: 28_000, contextWindow: 32_000, percent: 87.5 });
+    const [high] = await api.fire("context", { messages }, ctx);
+    expect(high.messages[1].content[0].text).toContain("(Pruned) kota_deps");
+
+    await api.fire("session_shutdown", {}, ctx);
+    setConfig(prev);
+  });
+
+  it("kota_search saves the full output to a blob before cutting it to the budget", async () => {
+    resetBehavior();
+    const prev = getConfig();
+    const dir = await mkdtemp(path.join(os.tmpdir(), "pi-kota-kota-blob-"));
+    setConfig({
+      ...prev,
+      blobs: { ...prev.blobs, enabled: true, dir, evictEveryWrites: 0 },
+      budgets: { kota_search: { maxChars: 200, maxTokens: 1000 } },
+    });
+
+    const api = createMockApi();
+    installGitExecMocks(api, "HEAD-1");
+    extension(api.pi as any);
+
+    const ctx = makeCtx();
+    await api.fire("session_start", {}, ctx);
+
+    behavior.searchText = Array.from({ length: 500 }, (_, i) => `src/a.ts:${i + 1}: match`).join("\n");
+    const tool = api.tools.get("kota_search");
+    const res = await tool.execute("id", { query: "match" }, undefined, undefined, ctx);
+    const blobId = res.details.blobId;
+    expect(typeof blobId).toBe("string");
+    expect(res.content[0].text).toMatch(new RegExp(`… \\d+ more \\w+ omitted \\(blobId ${blobId}\\)`));
+    // The mock ignores the cheaper args, so every downshift comes back just as large.
+    expect(res.content[0].text).toContain(`The original output is in kota_blob_read(blob_id="${blobId}")`);
+
+    const reader = api.tools.get("kota_blob_read");
+    const page = await reader.execute("id", { blob_id: blobId, start_line: 500 }, undefined, undefined, ctx);
+    expect(page.content[0].text).toContain("src/a.ts:500: match");
+
+    // The tool_result hook leaves the already-cut result alone.
+    const event = { toolName: "kota_search", content: res.content, details: res.details };
+    const [hooked] = await api.fire("tool_result", event, ctx);
+    expect(hooked).toBeUndefined();
+
+    await api.fire("session_shutdown", {}, ctx);
+    setConfig(prev);
+  });
+
+  it("/kota pin keeps the last tool result out of pruning", async () => {
+    resetBehavior();
+    setConfig({
+      ...getConfig(),
+      prune: { enabled: true, keepRecentTurns: 1, maxToolChars: 10, adaptive: false, pinBudgetTokens: 4000 },
+    });
+
+    const api = createMockApi();
+    installGitExecMocks(api, "HEAD-1");
+    extension(api.pi as any);
+
+    const ctx = makeCtx();
+    await api.fire("session_start", {}, ctx);
+    await api.fire("tool_result", { toolName: "read", toolCallId: "call-1", content: [] }, ctx);
+
+    const kotaCmd = api.commands.get("kota");
+    await kotaCmd.handler("pin last", ctx);
+    expect(ctx.ui.notify).toHaveBeenLastCalledWith(expect.stringContaining("Pinned tool call call-1"), "info");
+
+    const toolResult = (id: string) => ({
+      role: "toolResult",
+      toolCallId: id,
+      toolName: "read",
+      content: [{ type: "text", text: "z".repeat(200) }],
+    });
+    const messages = [
+      { role: "user", content: "a" },
+      toolResult("call-1"),
+      toolResult("call-2"),
+      { role: "user", content: "b" },
+    ];
+
+    const [res] = await api.fire("context", { messages }, ctx);
+    expect(res.messages[1].content[0].text).toBe("z".repeat(200));
+    expect(res.messages[2].content[0].text).toContain("(Pruned)");
+
+    await kotaCmd.handler("unpin", ctx);
+    const [after] = await api.fire("context", { messages }, ctx);
+    expect(after.messages[1].content[0].text).toContain("(Pruned)");
+
+    await api.fire("session_shutdown", {}, ctx);
+  });
+
+  it("session_start clears pins and the last tool call from the previous session", async () => {
+    resetBehavior();
+    const api = createMockApi();
+    installGitExecMocks(api, "HEAD-1");
+    extension(api.pi as any);
+
+    const ctx = makeCtx();
+    await api.fire("session_start", {}, ctx);
+    await api.fire("tool_result", { toolName: "read", toolCallId: "call-1", content: [] }, ctx);
+    const kotaCmd = api.commands.get("kota");
+    await kotaCmd.handler("pin last", ctx);
+
+    await api.fire("session_start", {}, ctx);
+    await kotaCmd.handler("unpin", ctx);
+    expect(ctx.ui.notify).toHaveBeenLastCalledWith("Nothing is pinned.", "info");
+    await kotaCmd.handler("pin last", ctx);
+    expect(ctx.ui.notify).toHaveBeenLastCalledWith("No tool result to pin yet.", "warning");
+
+    await api.fire("session_shutdown", {}, ctx);
+  });
+
+  it("/kota pruning reports the ledger and previews the next call with --dry-run", async () => {
+    resetBehavior();
+    const prev = getConfig();
+    setConfig({ ...prev, prune: { enabled: true, keepRecentTurns: 1, maxToolChars: 10, adaptive: false } });
+
+    const api = createMockApi();
+    installGitExecMocks(api, "HEAD-1");
+    extension(api.pi as any);
+
+    const ctx: any = makeCtx();
+    await api.fire("session_start", {}, ctx);
+
+    const toolResult = (id: string, toolName: string, text: string) => ({
+      role: "toolResult",
+      toolCallId: id,
+      toolName,
+      content: [{ type: "text", text }],
+    });
+    const messages = [
+      { role: "user", content: "a" },
+      toolResult("r1", "read", "z".repeat(200)),
+      { role: "user", content: "b" },
+    ];
+    await api.fire("context", { messages }, ctx);
+    await api.fire("context", { messages }, ctx);
+
+    const kotaCmd = api.commands.get("kota");
+    await kotaCmd.handler("pruning", ctx);
+    const report = ctx.ui.notify.mock.lastCall[0];
+    expect(report).toContain("keepRecentTurns=1, maxToolChars=10; adaptive off");
+    expect(report).toContain("across 1 pruned results");
+    expect(report).toMatch(/#1 read: 200 chars, saved \d+/);
+
+    ctx.sessionManager = {
+      getBranch: () => [
+        ...messages.map((message, i) => ({ type: "message", id: `e${i}`, message })),
+        { type: "message", id: "e3", message: { role: "assistant", content: [] } },
+        { type: "message", id: "e4", message: toolResult("r2", "bash", "y".repeat(50)) },
+        { type: "message", id: "e5", message: { role: "assistant", content: [] } },
+      ],
+    };
+    await kotaCmd.handler("pruning --dry-run", ctx);
+    const preview = ctx.ui.notify.mock.lastCall[0];
+    expect(preview).toContain("would prune 2 of 7 messages (250 chars), 1 not pruned before");
+    expect(preview).toContain("#1 read: 200 chars — over budget\n");
+    expect(preview).toContain("#4 bash: 50 chars — over budget [new]");
+
+    await api.fire("session_shutdown", {}, ctx);
+    setConfig(prev);
+  });
+
   it("/kota status handles listTools failure", async () => {
     resetBehavior();
 
@@ -268,6 +665,8 @@ describe("index.ts branch coverage", () => {
         dir: "/tmp/blobs",
         maxAgeDays: 7,
         maxSizeBytes: 1234,
+        repoMaxSizeBytes: 600,
+        repos: { "/repo/big": { maxSizeBytes: 900 } },
       },
     });
 
@@ -281,7 +680,13 @@ describe("index.ts branch coverage", () => {
     const kotaCmd = api.commands.get("kota");
     await kotaCmd.handler("evict-blobs", ctx);
 
-    expect(evictSpy).toHaveBeenCalledWith({ dir: "/tmp/blobs", maxAgeDays: 7, maxSizeBytes: 1234 });
+    expect(evictSpy).toHaveBeenCalledWith({
+      dir: "/tmp/blobs",
+      maxAgeDays: 7,
+      maxSizeBytes: 1234,
+      repoMaxSizeBytes: 600,
+      namespaceQuotas: { [blobNamespace("/repo/big")]: { maxSizeBytes: 900 } },
+    });
 
     const notifyArgs = ctx.ui.notify.mock.calls.map((c: any[]) => String(c[0])).join("\n");
     expect(notifyArgs).toContain("Evicted");
@@ -289,6 +694,32 @@ describe("index.ts branch coverage", () => {
     await api.fire("session_shutdown", {}, ctx);
   });
 
+  it("/kota evict-blobs --repo only evicts the current repo namespace", async () => {
+    resetBehavior();
+    evictSpy.mockClear();
+
+    setConfig({
+      ...getConfig(),
+      blobs: { enabled: true, dir: "/tmp/blobs", maxAgeDays: 7, maxSizeBytes: 1234, repoMaxSizeBytes: 600, repos: {} },
+    });
+
+    const api = createMockApi();
+    installGitExecMocks(api, "HEAD-1");
+    extension(api.pi as any);
+
+    const ctx = makeCtx();
+    await api.fire("session_start", {}, ctx);
+
+    const kotaCmd = api.commands.get("kota");
+    await kotaCmd.handler("evict-blobs --repo", ctx);
+
+    expect(evictSpy).toHaveBeenCalledWith(expect.objectContaining({ namespace: blobNamespace(ctx.cwd) }));
+    const notifyArgs = ctx.ui.notify.mock.calls.map((c: any[]) => String(c[0])).join("\n");
+    expect(notifyArgs).toContain(`from ${ctx.cwd}`);
+
+    await api.fire("session_shutdown", {}, ctx);
+  });
+
   it("/kota evict-blobs is a no-op when blobs are disabled", async () => {
     resetBehavior();
     evictSpy.mockClear();
@@ -346,4 +777,194 @@ describe("index.ts branch coverage", () => {
 
     await api.fire("session_shutdown", {}, ctx);
   });
+
+  it("kota_blob_read returns a bounded page with a next-page hint", async () => {
+    resetBehavior();
+    const dir = await mkdtemp(path.join(os.tmpdir(), "pi-kota-blob-read-tool-"));
+    setConfig({ ...getConfig(), blobs: { ...getConfig().blobs, enabled: true, dir } });
+
+    const content = Array.from({ length: 2000 }, (_, i) => `result ${i + 1}`).join("\n");
+    const blob = await writeBlob({ dir, content });
+
+    const api = createMockApi();
+    installGitExecMocks(api, "HEAD-1");
+    extension(api.pi as any);
+
+    const ctx = makeCtx();
+    await api.fire("session_start", {}, ctx);
+
+    const tool = api.tools.get("kota_blob_read");
+    const res = await tool.execute("id", { blob_id: blob.blobId, start_line: 10 }, undefined, undefined, ctx);
+    const text = res.content[0].text as string;
+
+    expect(text.length).toBeLessThan(5500);
+    expect(text).toContain("result 10\nresult 11");
+    expect(text).toContain(`Next page: kota_blob_read(blob_id="${blob.blobId}", start_line=`);
+    expect(res.details.next.startLine).toBeGreaterThan(10);
+
+    const grep = await tool.execute("id", { blob_id: blob.blobId, pattern: "^result 1999$" }, undefined, undefined, ctx);
+    expect(grep.content[0].text).toContain("1999: result 1999");
+    expect(grep.content[0].text).toContain("End of requested range");
+
+    await expect(
+      tool.execute("id", { blob_id: "../secrets" }, undefined, undefined, ctx),
+    ).rejects.toThrow(/invalid blob id/);
+
+    await api.fire("session_shutdown", {}, ctx);
+  });
+
+  it("context handler saves pruned bash output to a blob once", async () => {
+    resetBehavior();
+    const prev = getConfig();
+    const dir = await mkdtemp(path.join(os.tmpdir(), "pi-kota-prune-blob-"));
+    setConfig({
+      ...prev,
+      prune: { enabled: true, keepRecentTurns: 1, maxToolChars: 10, adaptive: false },
+      blobs: { ...prev.blobs, enabled: true, dir, evictEveryWrites: 0 },
+    });
+
+    const api = createMockApi();
+    installGitExecMocks(api, "HEAD-1");
+    extension(api.pi as any);
+
+    const ctx = makeCtx();
+    await api.fire("session_start", {}, ctx);
+
+    const output = "FAIL tests/a.test.ts\n" + "x".repeat(200);
+    const messages = [
+      { role: "user", content: "a" },
+      {
+        role: "assistant",
+        content: [{ type: "toolCall", id: "call-9", name: "bash", arguments: { command: "npm test" } }],
+      },
+      { role: "toolResult", toolCallId: "call-9", toolName: "bash", content: [{ type: "text", text: output }] },
+      { role: "user", content: "b" },
+    ];
+
+    const [res] = await api.fire("context", { messages }, ctx);
+    const pruned = res.messages[2];
+    expect(pruned.content[0].text).toContain('(Pruned) bash(command="npm test") output');
+    expect(pruned.content[0].text).toContain(`kota_blob_read(blob_id="${pruned.details.blobId}")`);
+
+    const tool = api.tools.get("kota_blob_read");
+    const page = await tool.execute("id", { blob_id: pruned.details.blobId }, undefined, undefined, ctx);
+    expect(page.content[0].text).toContain("FAIL tests/a.test.ts");
+
+    const execCalls = api.pi.exec.mock.calls.length;
+    const [again] = await api.fire("context", { messages }, ctx);
+    expect(again.messages[2].details.blobId).toBe(pruned.details.blobId);
+    expect(api.pi.exec.mock.calls.length).toBe(execCalls);
+
+    await api.fire("session_shutdown", {}, ctx);
+    setConfig(prev);
+  });
+
+  it("context handler resolves HEAD once per pass and skips kota_blob_read pages", async () => {
+    resetBehavior();
+    const prev = getConfig();
+    const dir = await mkdtemp(path.join(os.tmpdir(), "pi-kota-prune-batch-"));
+    setConfig({
+      ...prev,
+      prune: { enabled: true, keepRecentTurns: 1, maxToolChars: 10, adaptive: false },
+      blobs: { ...prev.blobs, enabled: true, dir, evictEveryWrites: 0 },
+    });
+
+    const api = createMockApi();
+    installGitExecMocks(api, "HEAD-1");
+    extension(api.pi as any);
+
+    const ctx = makeCtx();
+    await api.fire("session_start", {}, ctx);
+
+    const result = (id: string, toolName: string) => ({
+      role: "toolResult",
+      toolCallId: id,
+      toolName,
+      content: [{ type: "text", text: `${id} ` + "x".repeat(200) }],
+    });
+    const messages = [
+      { role: "user", content: "a" },
+      result("call-1", "bash"),
+      result("call-2", "bash"),
+      result("call-3", "kota_blob_read"),
+      { role: "user", content: "b" },
+    ];
+
+    const headCalls = () =>
+      api.pi.exec.mock.calls.filter((c: any[]) => c[0] === "git" && c[1].join(" ") === "rev-parse HEAD").length;
+    const before = headCalls();
+    const [res] = await api.fire("context", { messages }, ctx);
+    expect(headCalls() - before).toBe(1);
+    expect(typeof res.messages[1].details?.blobId).toBe("string");
+    expect(typeof res.messages[2].details?.blobId).toBe("string");
+    expect(res.messages[1].details.blobId).not.toBe(res.messages[2].details.blobId);
+    expect(res.messages[3].details?.blobId).toBeUndefined();
+
+    await api.fire("session_shutdown", {}, ctx);
+    setConfig(prev);
+  });
+
+  it("context handler replaces old images without blobbing the result's text", async () => {
+    resetBehavior();
+    const prev = getConfig();
+    const dir = await mkdtemp(path.join(os.tmpdir(), "pi-kota-prune-image-"));
+    setConfig({
+      ...prev,
+      prune: { enabled: true, keepRecentTurns: 1, maxToolChars: 1000, adaptive: false, images: true },
+      blobs: { ...prev.blobs, enabled: true, dir, evictEveryWrites: 0 },
+    });
+
+    const api = createMockApi();
+    installGitExecMocks(api, "HEAD-1");
+    extension(api.pi as any);
+
+    const ctx = makeCtx();
+    await api.fire("session_start", {}, ctx);
+
+    const image = { type: "image", data: "A".repeat(4000), mimeType: "image/png" };
+    const messages = [
+      { role: "user", content: "a" },
+      { role: "toolResult", toolCallId: "shot-1", toolName: "screenshot", content: [{ type: "text", text: "ok" }, image] },
+      { role: "user", content: "b" },
+    ];
+
+    const [res] = await api.fire("context", { messages }, ctx);
+    expect(res.messages[1].content[1].text).toContain("(Pruned) image/png image");
+    expect(res.messages[1].details.blobId).toBeUndefined();
+
+    await api.commands.get("kota").handler("pruning", ctx);
+    expect(String(ctx.ui.notify.mock.calls.at(-1)?.[0])).toMatch(/#1 screenshot: saved ~\d{4} tokens — old images/);
+
+    await api.fire("session_shutdown", {}, ctx);
+    setConfig(prev);
+  });
+
+  it("/kota blobs lists cached blobs with provenance", async () => {
+    resetBehavior();
+    const dir = await mkdtemp(path.join(os.tmpdir(), "pi-kota-blobs-cmd-"));
+    setConfig({ ...getConfig(), blobs: { ...getConfig().blobs, enabled: true, dir } });
+    await writeBlob({ dir, content: "cached", provenance: { toolName: "kota_deps", args: { file_path: "src/a.ts" } } });
+
+    const api = createMockApi();
+    installGitExecMocks(api, "HEAD-1");
+    extension(api.pi as any);
+
+    const ctx = makeCtx();
+    await api.fire("session_start", {}, ctx);
+
+    const kotaCmd = api.commands.get("kota");
+    await kotaCmd.handler("blobs", ctx);
+
+    const notifyArgs = ctx.ui.notify.mock.calls.map((c: any[]) => String(c[0])).join("\n");
+    expect(notifyArgs).toContain("pi-kota blobs (1 total");
+    expect(notifyArgs).toContain('kota_deps  {"file_path":"src/a.ts"}');
+
+    await kotaCmd.handler("blobs list --tool kota_search", ctx);
+    expect(String(ctx.ui.notify.mock.calls.at(-1)[0])).toContain("(0 total");
+
+    await kotaCmd.handler("blobs nope", ctx);
+    expect(ctx.ui.notify.mock.calls.at(-1)[1]).toBe("warning");
+
+    await api.fire("session_shutdown", {}, ctx);
+  });
 });
@@ -1,39 +1,111 @@
 import { describe, expect, it, vi } from "vitest";
 
-// Mock config to enable blobs to prove we still don't evict at startup.
+const { getConfig, setConfig } = vi.hoisted(() => {
+  const base = {
+    kota: { command: "kota", args: [], connectTimeoutMs: 10_000, confirmIndex: false, autoContext: { enabled: false } },
+    prune: { enabled: false, maxToolChars: 50, keepRecentTurns: 2, adaptive: false },
+    budgets: { kota_search: { maxChars: 50, maxTokens: 1000 } },
+    blobs: {
+      enabled: true,
+      dir: "/tmp/blobs",
+      maxAgeDays: 30,
+      maxSizeBytes: 1024 * 1024,
+      repoMaxSizeBytes: 512 * 1024,
+      repos: {},
+      autoEvict: true,
+      evictEveryWrites: 2,
+    },
+    log: { enabled: false },
+  };
+  let config: any = base;
+  return {
+    getConfig: () => config,
+    setConfig: (c: any) => {
+      config = c;
+    },
+  };
+});
+
 vi.mock("../src/config.js", () => {
   return {
     loadConfig: vi.fn(async () => ({
-      config: {
-        kota: { command: "kota", args: [], connectTimeoutMs: 10_000, confirmIndex: false, autoContext: { enabled: false } },
-        prune: { enabled: false, maxToolChars: 50, keepRecentTurns: 2, adaptive: false },
-        blobs: { enabled: true, dir: "/tmp/blobs", maxAgeDays: 30, maxSizeBytes: 1024 * 1024 },
-        log: { enabled: false },
-      },
+      config: getConfig(),
       sources: { global: "(mock)", project: "(mock)" },
-    }))
+    })),
   };
 });
 
-const { evictSpy } = vi.hoisted(() => ({ evictSpy: vi.fn(async () => {}) }));
+const { evictSpy } = vi.hoisted(() => ({ evictSpy: vi.fn(async () => ({ removedCount: 0, removedBytes: 0 })) }));
 vi.mock("../src/blobs-evict.js", () => ({ evictBlobs: evictSpy }));
 
+const { writeBlobSpy } = vi.hoisted(() => ({
+  writeBlobSpy: vi.fn(async (_opts: any) => ({ blobId: "blob-1", blobPath: "/tmp/blob-1" })),
+}));
+vi.mock("../src/blobs.js", () => ({ writeBlob: writeBlobSpy }));
+
 import extension from "../src/index.js";
 import { createMockApi } from "./helpers/mock-api.js";
 
+function makeCtx(): any {
+  return {
+    cwd: process.cwd(),
+    hasUI: true,
+    ui: { setStatus: vi.fn(), notify: vi.fn(), confirm: vi.fn(async () => true) },
+  };
+}
+
 describe("index.ts session_start", () => {
-  it("does not evict blobs on session_start", async () => {
+  it("evicts blobs in the background on session_start", async () => {
+    evictSpy.mockClear();
     const api = createMockApi();
     extension(api.pi as any);
 
-    const ctx: any = {
-      cwd: process.cwd(),
-      hasUI: true,
-      ui: { setStatus: vi.fn(), notify: vi.fn(), confirm: vi.fn(async () => true) },
-    };
+    const ctx = makeCtx();
+    await api.fire("session_start", {}, ctx);
+
+    await vi.waitFor(() => expect(evictSpy).toHaveBeenCalledTimes(1));
+    expect(evictSpy).toHaveBeenCalledWith({
+      dir: "/tmp/blobs",
+      maxAgeDays: 30,
+      maxSizeBytes: 1024 * 1024,
+      repoMaxSizeBytes: 512 * 1024,
+      namespaceQuotas: {},
+    });
+
+    await api.fire("session_shutdown", {}, ctx);
+  });
+
+  it("does not evict on session_start when autoEvict is disabled", async () => {
+    evictSpy.mockClear();
+    setConfig({ ...getConfig(), blobs: { ...getConfig().blobs, autoEvict: false } });
 
+    const api = createMockApi();
+    extension(api.pi as any);
+
+    const ctx = makeCtx();
     await api.fire("session_start", {}, ctx);
+    await api.fire("session_shutdown", {}, ctx);
 
     expect(evictSpy).not.toHaveBeenCalled();
+    setConfig({ ...getConfig(), blobs: { ...getConfig().blobs, autoEvict: true } });
+  });
+
+  it("evicts again every evictEveryWrites blob writes", async () => {
+    const api = createMockApi();
+    extension(api.pi as any);
+
+    const ctx = makeCtx();
+    await api.fire("session_start", {}, ctx);
+    await vi.waitFor(() => expect(evictSpy).toHaveBeenCalled());
+    evictSpy.mockClear();
+
+    const result = { toolName: "kota_search", content: [{ type: "text", text: "x".repeat(200) }], details: {} };
+    await api.fire("tool_result", result, ctx);
+    expect(evictSpy).not.toHaveBeenCalled();
+
+    await api.fire("tool_result", result, ctx);
+    await vi.waitFor(() => expect(evictSpy).toHaveBeenCalledTimes(1));
+
+    await api.fire("session_shutdown", {}, ctx);
   });
 });
@@ -169,4 +169,22 @@ describe("ensureIndexed edge cases", () => {
 
     expect(index).not.toHaveBeenCalled();
   });
+
+  it("stops waiting on another caller's run when its own signal aborts", async () => {
+    const state = { indexed: false, indexPromise: new Promise<void>(() => {}) };
+    const controller = new AbortController();
+    const index = vi.fn(async () => {});
+
+    const pending = ensureIndexed({
+      state,
+      confirmIndex: false,
+      confirm: vi.fn(async () => true),
+      index,
+      signal: controller.signal,
+    });
+    controller.abort();
+
+    await expect(pending).rejects.toThrow("pi-kota: indexing cancelled");
+    expect(index).not.toHaveBeenCalled();
+  });
 });
@@ -1,6 +1,7 @@
 import { describe, expect, it, vi } from "vitest";
 import { Client } from "@modelcontextprotocol/sdk/client/index.js";
 import { StdioClientTransport } from "@modelcontextprotocol/sdk/client/stdio.js";
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
 import { KotaMcpClient, toTextContent } from "../src/kota/mcp.js";
 
 describe("toTextContent", () => {
@@ -159,6 +160,33 @@ describe("KotaMcpClient.connect error classification", () => {
     }
   });
 
+  it("callTool passes signal/timeout to the SDK and names timeouts and cancellations", async () => {
+    const connectSpy = vi.spyOn(Client.prototype, "connect").mockResolvedValue(undefined);
+    const callSpy = vi
+      .spyOn(Client.prototype, "callTool")
+      .mockRejectedValue(new McpError(ErrorCode.RequestTimeout, "Request timed out"));
+
+    const client = new KotaMcpClient({ command: process.execPath, args: ["-e", "0"], cwd: process.cwd() });
+
+    try {
+      await client.connect();
+      const controller = new AbortController();
+      await expect(client.callTool("search", {}, { signal: controller.signal, timeoutMs: 25 })).rejects.toThrow(
+        "pi-kota: KotaDB did not answer search within 25ms",
+      );
+      expect(callSpy.mock.calls[0]?.[2]).toEqual({ signal: controller.signal, timeout: 25 });
+
+      controller.abort();
+      await expect(client.callTool("search", {}, { signal: controller.signal })).rejects.toThrow(
+        "pi-kota: search cancelled",
+      );
+    } finally {
+      callSpy.mockRestore();
+      connectSpy.mockRestore();
+      client.disconnect();
+    }
+  });
+
   it("close() is idempotent", async () => {
     const client = new KotaMcpClient({
       command: process.execPath,
@@ -0,0 +1,152 @@
+import { describe, expect, it } from "vitest";
+import {
+  extractPayload,
+  limitSnippets,
+  parseDeps,
+  parseImpact,
+  parseKotaResponse,
+  parseSearch,
+  parseTaskContext,
+  parseUsages,
+  renderKotaResult,
+} from "../src/kota/parse.js";
+
+function jsonBlock(value: unknown) {
+  return [{ type: "text", text: JSON.stringify(value) }];
+}
+
+describe("extractPayload", () => {
+  it("prefers structuredContent, then JSON text, else undefined", () => {
+    expect(extractPayload(jsonBlock({ a: 1 }), { structuredContent: { b: 2 } })).toEqual({ b: 2 });
+    expect(extractPayload(jsonBlock({ a: 1 }), {})).toEqual({ a: 1 });
+    expect(extractPayload([{ type: "text", text: "plain answer" }], {})).toBeUndefined();
+    expect(extractPayload([{ type: "text", text: "{not json" }], {})).toBeUndefined();
+  });
+});
+
+describe("parseSearch", () => {
+  it("normalizes result records and renders each match with its full snippet", () => {
+    const result = parseSearch({
+      results: [
+        { path: "src/auth.ts", line: 12, snippet: "\n  export function login() {\n  ..." },
+        { file_path: "src/session.ts" },
+        { nope: true },
+      ],
+      total: 7,
+    });
+
+    expect(result).toEqual({
+      kind: "search",
+      files: [
+        { path: "src/auth.ts", line: 12, snippet: "\n  export function login() {\n  ..." },
+        { path: "src/session.ts" },
+      ],
+      total: 7,
+    });
+    expect(renderKotaResult(result!)).toBe(
+      "2 of 7 results\n\nsrc/auth.ts:12\n    export function login() {\n    ...\n\nsrc/session.ts",
+    );
+  });
+
+  it("keeps one-line snippets inline without a fixed length cap", () => {
+    const line = `const x = ${"a".repeat(300)};`;
+    const result = parseSearch([{ path: "a.ts", line: 1, snippet: line }, { path: "b.ts" }]);
+    expect(renderKotaResult(result!)).toBe(`2 results\na.ts:1  ${line}\nb.ts`);
+  });
+
+  it("flattens scope-grouped results and accepts bare path arrays", () => {
+    expect(parseSearch({ results: { code: [{ path: "a.ts" }], symbols: [{ file: "b.ts", line: 3 }] } })?.files).toEqual([
+      { path: "a.ts" },
+      { path: "b.ts", line: 3 },
+    ]);
+    expect(parseSearch(["a.ts", "b.ts"])?.files).toEqual([{ path: "a.ts" }, { path: "b.ts" }]);
+    expect(parseSearch({ message: "hi" })).toBeNull();
+  });
+});
+
+describe("limitSnippets", () => {
+  it("bounds snippet text across refs and drops it once the budget is spent", () => {
+    const result = parseSearch([
+      { path: "a.ts", snippet: "x".repeat(30) },
+      { path: "b.ts", snippet: "y".repeat(30) },
+      { path: "c.ts", snippet: "z" },
+    ])!;
+
+    expect(limitSnippets(result, 40)).toEqual({
+      kind: "search",
+      files: [
+        { path: "a.ts", snippet: "x".repeat(30) },
+        { path: "b.ts", snippet: `${"y".repeat(9)}…` },
+        { path: "c.ts" },
+      ],
+    });
+    expect(limitSnippets(parseDeps({ file: "a", imports: ["b"] })!, 0).kind).toBe("deps");
+  });
+});
+
+describe("parseDeps", () => {
+  it("builds edges in both directions", () => {
+    const result = parseDeps({ file: "src/a.ts", dependencies: ["src/b.ts"], dependents: [{ path: "src/c.ts" }] });
+
+    expect(result?.edges).toEqual([
+      { from: "src/a.ts", to: "src/b.ts" },
+      { from: "src/c.ts", to: "src/a.ts" },
+    ]);
+    expect(renderKotaResult(result!)).toBe(
+      "deps: src/a.ts\nimports (1):\n→ src/b.ts\nimported by (1):\n← src/c.ts",
+    );
+    expect(parseDeps({ file: "x" })).toBeNull();
+  });
+});
+
+describe("parseUsages", () => {
+  it("collects usage locations", () => {
+    const result = parseUsages({ symbol: "login", usages: [{ file: "src/app.ts", line: 4, context: "login()" }] });
+    expect(renderKotaResult(result!)).toBe("login: 1 usage\nsrc/app.ts:4  login()");
+  });
+});
+
+describe("parseImpact", () => {
+  it("keeps risk, affected files, tests and recommendations", () => {
+    const result = parseImpact({
+      riskLevel: "high",
+      affectedFiles: ["src/a.ts"],
+      testFiles: ["tests/a.test.ts"],
+      recommendations: ["Run the auth suite", { message: "Check callers" }],
+    });
+
+    expect(result).toEqual({
+      kind: "impact",
+      risk: "high",
+      files: ["src/a.ts"],
+      tests: ["tests/a.test.ts"],
+      recommendations: ["Run the auth suite", "Check callers"],
+    });
+    expect(renderKotaResult(result!)).toContain("risk: high\naffected files (1):\n- src/a.ts");
+    expect(parseImpact({ unrelated: 1 })).toBeNull();
+  });
+});
+
+describe("parseTaskContext", () => {
+  it("groups files, dependencies, dependents, tests and symbols", () => {
+    const result = parseTaskContext({ files: ["src/a.ts"], impacted_files: ["src/b.ts"], symbols: [{ name: "login" }] });
+
+    expect(result).toEqual({
+      kind: "task_context",
+      files: ["src/a.ts"],
+      dependencies: [],
+      dependents: ["src/b.ts"],
+      tests: [],
+      symbols: ["login"],
+    });
+    expect(parseTaskContext({})).toBeNull();
+  });
+});
+
+describe("parseKotaResponse", () => {
+  it("dispatches by tool name and falls back to null for unknown tools or shapes", () => {
+    expect(parseKotaResponse("deps", jsonBlock({ file: "a", imports: ["b"] }), {})?.kind).toBe("deps");
+    expect(parseKotaResponse("index", jsonBlock({ ok: true }), {})).toBeNull();
+    expect(parseKotaResponse("search", [{ type: "text", text: "no structure" }], {})).toBeNull();
+  });
+});
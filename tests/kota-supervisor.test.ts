@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import { isIdempotentKotaTool, KotaSupervisor } from "../src/kota/supervisor.js";
+
+function makeSupervisor() {
+  let t = 0;
+  const supervisor = new KotaSupervisor(
+    { maxFailures: 3, windowMs: 60_000, baseDelayMs: 500, maxDelayMs: 1500, cooldownMs: 30_000 },
+    () => t,
+  );
+  return { supervisor, advance: (ms: number) => (t += ms) };
+}
+
+describe("KotaSupervisor", () => {
+  it("backs off exponentially up to maxDelayMs and forgets failures outside the window", () => {
+    const { supervisor, advance } = makeSupervisor();
+    expect(supervisor.backoffMs()).toBe(0);
+
+    supervisor.recordFailure();
+    expect(supervisor.backoffMs()).toBe(500);
+    supervisor.recordFailure();
+    expect(supervisor.backoffMs()).toBe(1000);
+    supervisor.recordSuccess();
+    supervisor.recordFailure();
+    expect(supervisor.backoffMs()).toBe(1500);
+
+    advance(60_001);
+    expect(supervisor.backoffMs()).toBe(0);
+  });
+
+  it("opens after maxFailures in the window, half-opens after the cooldown, and re-opens on a failed trial", () => {
+    const { supervisor, advance } = makeSupervisor();
+    supervisor.recordFailure();
+    supervisor.recordFailure();
+    expect(supervisor.circuit).toBe("closed");
+
+    supervisor.recordFailure();
+    expect(supervisor.circuit).toBe("open");
+    expect(supervisor.describe()).toBe("circuit open (3 failure(s) in the last 60s; retry in 30s)");
+
+    advance(30_000);
+    expect(supervisor.circuit).toBe("half-open");
+    supervisor.recordFailure();
+    expect(supervisor.circuit).toBe("open");
+
+    advance(30_000);
+    supervisor.recordSuccess();
+    expect(supervisor.circuit).toBe("closed");
+  });
+
+  it("reset clears failures and closes the circuit", () => {
+    const { supervisor } = makeSupervisor();
+    for (let i = 0; i < 3; i++) supervisor.recordFailure();
+    supervisor.reset();
+    expect(supervisor.circuit).toBe("closed");
+    expect(supervisor.backoffMs()).toBe(0);
+    expect(supervisor.describe()).toBe("circuit closed (0 failure(s) in the last 60s)");
+  });
+});
+
+describe("isIdempotentKotaTool", () => {
+  it("allows only read-only tools to be retried", () => {
+    expect(isIdempotentKotaTool("search")).toBe(true);
+    expect(isIdempotentKotaTool("task_context")).toBe(true);
+    expect(isIdempotentKotaTool("index_repository")).toBe(false);
+  });
+});
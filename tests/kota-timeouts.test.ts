@@ -0,0 +1,39 @@
+import { describe, expect, it } from "vitest";
+import {
+  abortableDelay,
+  DEFAULT_TOOL_TIMEOUTS,
+  FALLBACK_TIMEOUT_MS,
+  formatTimeouts,
+  raceAbort,
+  resolveToolTimeout,
+} from "../src/kota/timeouts.js";
+
+describe("resolveToolTimeout", () => {
+  it("uses the configured value, then the default, then the fallback", () => {
+    expect(resolveToolTimeout({ search: 5000 } as any, "search")).toBe(5000);
+    expect(resolveToolTimeout(undefined, "index")).toBe(DEFAULT_TOOL_TIMEOUTS.index);
+    expect(resolveToolTimeout(undefined, "unknown")).toBe(FALLBACK_TIMEOUT_MS);
+    expect(formatTimeouts(undefined)).toContain("index=600s, search=30s");
+  });
+});
+
+describe("raceAbort / abortableDelay", () => {
+  it("rejects with the given reason as soon as the signal aborts", async () => {
+    const controller = new AbortController();
+    const pending = raceAbort(new Promise<void>(() => {}), controller.signal, () => new Error("stopped"));
+    controller.abort();
+    await expect(pending).rejects.toThrow("stopped");
+    await expect(raceAbort(Promise.resolve(1), controller.signal, () => new Error("late"))).rejects.toThrow("late");
+  });
+
+  it("passes results through without a signal and ends delays early on abort", async () => {
+    await expect(raceAbort(Promise.resolve(1), undefined, () => new Error("x"))).resolves.toBe(1);
+
+    const controller = new AbortController();
+    const t0 = Date.now();
+    const delay = abortableDelay(10_000, controller.signal, () => new Error("cancelled"));
+    controller.abort();
+    await expect(delay).rejects.toThrow("cancelled");
+    expect(Date.now() - t0).toBeLessThan(1000);
+  });
+});
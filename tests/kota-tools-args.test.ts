@@ -1,5 +1,5 @@
 import { describe, expect, it } from "vitest";
-import { prepareMcpArgs } from "../src/kota/tools.js";
+import { prepareMcpArgs, TEST_EXCLUDE_GLOBS } from "../src/kota/tools.js";
 
 describe("prepareMcpArgs", () => {
   it("maps index.path to index_repository repository + localPath", () => {
@@ -8,4 +8,53 @@ describe("prepareMcpArgs", () => {
       localPath: "/repo",
     });
   });
+
+  it("passes plain search args through unchanged", () => {
+    expect(prepareMcpArgs("search", { query: "auth", output: "paths", limit: 5 })).toEqual({
+      query: "auth",
+      output: "paths",
+      limit: 5,
+    });
+  });
+
+  it("maps scope, globs, extensions and context_lines onto KotaDB search args", () => {
+    expect(
+      prepareMcpArgs("search", {
+        query: "auth",
+        scope: "symbols",
+        output: "snippet",
+        context_lines: 3,
+        include: ["src/**"],
+        exclude: ["**/generated/**"],
+        extensions: ["ts", ".tsx"],
+      }),
+    ).toEqual({
+      query: "auth",
+      scope: ["symbols"],
+      output: "snippet",
+      context_lines: 3,
+      filters: { glob: ["src/**"], exclude: ["**/generated/**"], extensions: [".ts", ".tsx"] },
+    });
+  });
+
+  it("expands exclude_tests into test/fixture exclude globs", () => {
+    const args = prepareMcpArgs("search", { query: "q", exclude: ["**/tests/**"], exclude_tests: true }) as any;
+    expect(args.filters.exclude[0]).toBe("**/tests/**");
+    expect(args.filters.exclude).toEqual(expect.arrayContaining(TEST_EXCLUDE_GLOBS));
+    expect(new Set(args.filters.exclude).size).toBe(args.filters.exclude.length);
+    expect(args).not.toHaveProperty("exclude_tests");
+  });
+
+  it("enforces hard caps even when schema validation was bypassed", () => {
+    const args = prepareMcpArgs("search", {
+      query: "q",
+      limit: 500,
+      context_lines: 40,
+      include: Array.from({ length: 30 }, (_, i) => `dir${i}/**`),
+    }) as any;
+
+    expect(args.limit).toBe(50);
+    expect(args.context_lines).toBe(5);
+    expect(args.filters.glob).toHaveLength(20);
+  });
 });
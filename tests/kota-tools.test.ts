@@ -1,5 +1,6 @@
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
 import { describe, expect, it, vi } from "vitest";
-import { callBudgeted, formatToolError } from "../src/kota/tools.js";
+import { callBudgeted, downshiftSearchArgs, formatDownshiftNote, formatToolError } from "../src/kota/tools.js";
 
 describe("formatToolError", () => {
   it("includes available tool list", () => {
@@ -38,6 +39,26 @@ describe("callBudgeted", () => {
     expect(result.ok).toBe(false);
   });
 
+  it("treats MCP ConnectionClosed (subprocess exited mid-call) as a transport error", async () => {
+    const onTransportError = vi.fn();
+    const listTools = vi.fn(async () => ["search"]);
+
+    const result = await callBudgeted({
+      toolName: "search",
+      args: {},
+      maxChars: 5000,
+      listTools,
+      callTool: async () => {
+        throw new McpError(ErrorCode.ConnectionClosed, "Connection closed");
+      },
+      onTransportError,
+    });
+
+    expect(onTransportError).toHaveBeenCalledTimes(1);
+    expect(listTools).not.toHaveBeenCalled();
+    expect(result.ok).toBe(false);
+  });
+
   it("does not call listTools for transport errors", async () => {
     const listTools = vi.fn(async () => ["search"]);
     const onTransportError = vi.fn();
@@ -191,4 +212,206 @@ describe("callBudgeted edge cases", () => {
     expect(result.ok).toBe(false);
     expect(result.text).toContain("search, deps");
   });
+
+  it("passes the signal and timeout to callTool and rethrows once aborted", async () => {
+    const controller = new AbortController();
+    const listTools = vi.fn(async () => ["search"]);
+    const callTool = vi.fn(async (_name: string, _args: unknown, opts?: { signal?: AbortSignal }) => {
+      controller.abort();
+      throw opts?.signal?.aborted ? new Error("pi-kota: search cancelled") : new Error("not aborted");
+    });
+
+    const signal = controller.signal;
+    await expect(
+      callBudgeted({ toolName: "search", args: {}, maxChars: 5000, listTools, callTool, signal, timeoutMs: 1234 }),
+    ).rejects.toThrow(/cancelled/);
+    expect(callTool).toHaveBeenCalledWith("search", {}, { signal: controller.signal, timeoutMs: 1234 });
+    expect(listTools).not.toHaveBeenCalled();
+  });
+});
+
+describe("downshiftSearchArgs", () => {
+  it("steps snippet → compact → paths, then halves limit", () => {
+    expect(downshiftSearchArgs({ query: "q", output: "snippet" })).toEqual({
+      args: { query: "q", output: "compact" },
+      note: "output snippet → compact",
+    });
+    expect(downshiftSearchArgs({ query: "q" })?.args).toEqual({ query: "q", output: "paths" });
+    expect(downshiftSearchArgs({ query: "q", output: "paths", limit: 20 })).toEqual({
+      args: { query: "q", output: "paths", limit: 10 },
+      note: "limit 20 → 10",
+    });
+    expect(downshiftSearchArgs({ query: "q", output: "paths" })?.note).toBe("limit 15 → 7");
+    expect(downshiftSearchArgs({ query: "q", output: "paths", limit: 1 })).toBeNull();
+  });
+
+  it("trims snippet context lines before changing the output mode", () => {
+    expect(downshiftSearchArgs({ query: "q", output: "snippet", context_lines: 5 })).toEqual({
+      args: { query: "q", output: "snippet", context_lines: 2 },
+      note: "context_lines 5 → 2",
+    });
+    expect(downshiftSearchArgs({ query: "q", output: "snippet", context_lines: 1 })?.note).toBe(
+      "output snippet → compact",
+    );
+  });
+});
+
+describe("callBudgeted downshifting", () => {
+  function fakeSearch(sizes: Record<string, number>) {
+    return vi.fn(async (_name: string, args: any) => {
+      const key = `${args.output}:${args.limit ?? ""}`;
+      const text = "r".repeat(sizes[key] ?? 10);
+      return { content: [{ type: "text", text }], raw: {} };
+    });
+  }
+
+  it("re-issues over-budget searches with cheaper args and reports the steps", async () => {
+    const callTool = fakeSearch({ "snippet:": 500, "compact:": 200, "paths:": 50 });
+
+    const result = await callBudgeted({
+      toolName: "search",
+      args: { query: "q", output: "snippet" },
+      maxChars: 100,
+      listTools: async () => [],
+      callTool,
+      downshift: downshiftSearchArgs,
+    });
+
+    expect(callTool).toHaveBeenCalledTimes(3);
+    expect(callTool.mock.calls[2][1]).toEqual({ query: "q", output: "paths" });
+    expect(result.text).toHaveLength(50);
+    expect(result.downshifts).toEqual(["output snippet → compact", "output compact → paths"]);
+  });
+
+  it("does not retry when the first response fits", async () => {
+    const callTool = fakeSearch({ "snippet:": 50 });
+
+    const result = await callBudgeted({
+      toolName: "search",
+      args: { query: "q", output: "snippet" },
+      maxChars: 100,
+      listTools: async () => [],
+      callTool,
+      downshift: downshiftSearchArgs,
+    });
+
+    expect(callTool).toHaveBeenCalledTimes(1);
+    expect(result.downshifts).toEqual([]);
+  });
+
+  it("keeps the previous response when a retry fails", async () => {
+    let calls = 0;
+    const onTransportError = vi.fn();
+    const result = await callBudgeted({
+      toolName: "search",
+      args: { query: "q", output: "compact" },
+      maxChars: 10,
+      listTools: async () => [],
+      callTool: async () => {
+        if (calls++ === 0) return { content: [{ type: "text", text: "x".repeat(40) }], raw: {} };
+        const err = new Error("write EPIPE") as Error & { code: string };
+        err.code = "EPIPE";
+        throw err;
+      },
+      onTransportError,
+      downshift: downshiftSearchArgs,
+    });
+
+    expect(result.ok).toBe(true);
+    expect(result.text).toBe("xxxxxxxxx…");
+    expect(result.downshifts).toEqual([]);
+    expect(onTransportError).toHaveBeenCalledTimes(1);
+  });
+
+  it("formats a note naming the downshift steps", () => {
+    const note = formatDownshiftNote(["output compact → paths"], { maxChars: 5000 });
+    expect(note).toContain("5000-char");
+    expect(note).toContain("output compact → paths");
+  });
+
+  it("names the token budget when one is set", () => {
+    const note = formatDownshiftNote(["limit 10 → 5"], { maxChars: 5000, maxTokens: 1250 });
+    expect(note).toContain("~1250-token");
+  });
+
+  it("downshifts when the response exceeds the token budget", async () => {
+    const big = { results: Array.from({ length: 40 }, (_, i) => ({ path: `src/file-${i}.ts` })) };
+    const small = { results: [{ path: "src/a.ts" }] };
+    const callTool = vi
+      .fn()
+      .mockResolvedValueOnce({ content: [{ type: "text", text: JSON.stringify(big) }], raw: {} })
+      .mockResolvedValueOnce({ content: [{ type: "text", text: JSON.stringify(small) }], raw: {} });
+
+    const result = await callBudgeted({
+      toolName: "search",
+      args: { query: "x", output: "compact" },
+      maxChars: 5000,
+      maxTokens: 50,
+      listTools: async () => [],
+      callTool,
+      downshift: downshiftSearchArgs,
+    });
+
+    expect(callTool).toHaveBeenCalledTimes(2);
+    expect(result.downshifts).toEqual(["output compact → paths"]);
+    expect(result.text).toContain("src/a.ts");
+  });
+
+  it("saves the full output before cutting or downshifting and names the blob in the footer", async () => {
+    const text = Array.from({ length: 50 }, (_, i) => `src/file-${i}.ts`).join("\n");
+    const saveFull = vi.fn(async () => "blob-1");
+    const result = await callBudgeted({
+      toolName: "deps",
+      args: {},
+      maxChars: 100,
+      listTools: async () => [],
+      callTool: async () => ({ content: [{ type: "text", text }], raw: {} }),
+      saveFull,
+    });
+
+    expect(saveFull).toHaveBeenCalledWith(text);
+    expect(result.blobId).toBe("blob-1");
+    expect(result.text).toMatch(/… \d+ more results omitted \(blobId blob-1\)$/);
+
+    const small = await callBudgeted({
+      toolName: "deps",
+      args: {},
+      maxChars: 5000,
+      listTools: async () => [],
+      callTool: async () => ({ content: [{ type: "text", text }], raw: {} }),
+      saveFull,
+    });
+    expect(saveFull).toHaveBeenCalledTimes(1);
+    expect(small.blobId).toBeUndefined();
+  });
 });
+
+describe("callBudgeted structured results", () => {
+  it("returns parsed data and renders compact text for known shapes", async () => {
+    const payload = { results: [{ path: "src/a.ts", line: 1, snippet: "const a = 1;" }] };
+    const result = await callBudgeted({
+      toolName: "search",
+      args: { query: "a" },
+      maxChars: 5000,
+      listTools: async () => [],
+      callTool: async () => ({ content: [{ type: "text", text: JSON.stringify(payload) }], raw: {} }),
+    });
+
+    expect(result.data).toEqual({ kind: "search", files: [{ path: "src/a.ts", line: 1, snippet: "const a = 1;" }] });
+    expect(result.text).toBe("1 result\nsrc/a.ts:1  const a = 1;");
+  });
+
+  it("leaves data null and keeps the original text when the shape is unknown", async () => {
+    const result = await callBudgeted({
+      toolName: "search",
+      args: { query: "a" },
+      maxChars: 5000,
+      listTools: async () => [],
+      callTool: async () => ({ content: [{ type: "text", text: "free-form answer" }], raw: {} }),
+    });
+
+    expect(result.data).toBeNull();
+    expect(result.text).toBe("free-form answer");
+  });
+});
+
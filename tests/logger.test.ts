@@ -3,6 +3,7 @@ import os from "node:os";
 import path from "node:path";
 import { describe, expect, it } from "vitest";
 import { createLogger } from "../src/logger.js";
+import { createRedactor } from "../src/redact.js";
 
 describe("Logger", () => {
   it("writes JSON lines to the log file", async () => {
@@ -42,4 +43,17 @@ describe("Logger", () => {
     await expect(logger.log("mcp", "connected", { repo: "/tmp/repo" })).resolves.toBeUndefined();
     await expect(logger.close()).resolves.toBeUndefined();
   });
+
+  it("redacts secrets in data before writing", async () => {
+    const dir = await import("node:fs/promises").then((fs) =>
+      fs.mkdtemp(path.join(os.tmpdir(), "pi-kota-log-redact-")),
+    );
+    const logPath = path.join(dir, "debug.jsonl");
+    const logger = await createLogger({ enabled: true, path: logPath, redactor: createRedactor() });
+
+    await logger.log("mcp", "connect_error", { error: "auth failed for GITHUB_TOKEN=ghp_" + "a1B2".repeat(9) });
+
+    const [line] = (await readFile(logPath, "utf8")).trim().split("\n").map((l) => JSON.parse(l));
+    expect(line.data.error).toBe("auth failed for GITHUB_TOKEN=[REDACTED:github_token]");
+  });
 });
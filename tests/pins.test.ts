@@ -0,0 +1,34 @@
+import { describe, expect, it } from "vitest";
+import { runPinCommand, type PinState } from "../src/pins.js";
+
+const makeState = (): PinState => ({ pinnedToolCallIds: [], lastToolCallId: "call-3" });
+
+describe("runPinCommand", () => {
+  it("pins the last tool result by default and mentions the budget", () => {
+    const state = makeState();
+    const res = runPinCommand("pin", "", state, 4000);
+    expect(state.pinnedToolCallIds).toEqual(["call-3"]);
+    expect(res.text).toContain("4000-token budget");
+    expect(runPinCommand("pin", "last", state).text).toContain("already pinned");
+  });
+
+  it("pins an explicit id and warns when there is nothing to pin", () => {
+    const state = makeState();
+    runPinCommand("pin", "call-1", state);
+    expect(state.pinnedToolCallIds).toEqual(["call-1"]);
+
+    const empty = runPinCommand("pin", "last", { pinnedToolCallIds: [], lastToolCallId: null });
+    expect(empty.level).toBe("warning");
+  });
+
+  it("unpins the most recent pin, a given id, or all", () => {
+    const state = { pinnedToolCallIds: ["a", "b", "c"], lastToolCallId: null };
+    runPinCommand("unpin", "", state);
+    expect(state.pinnedToolCallIds).toEqual(["a", "b"]);
+    runPinCommand("unpin", "a", state);
+    expect(state.pinnedToolCallIds).toEqual(["b"]);
+    expect(runPinCommand("unpin", "zzz", state).level).toBe("warning");
+    expect(runPinCommand("unpin", "all", state).text).toBe("Unpinned 1 tool call.");
+    expect(runPinCommand("unpin", "", state).text).toBe("Nothing is pinned.");
+  });
+});
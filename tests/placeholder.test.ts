@@ -0,0 +1,80 @@
+import { describe, expect, it } from "vitest";
+import {
+  collectToolCalls,
+  formatImagePlaceholder,
+  formatPrunedPlaceholder,
+  formatToolCall,
+  previewLines,
+} from "../src/placeholder.js";
+
+describe("collectToolCalls", () => {
+  it("maps toolCall ids from assistant messages", () => {
+    const calls = collectToolCalls([
+      { role: "user", content: "hi" },
+      {
+        role: "assistant",
+        content: [
+          { type: "text", text: "reading" },
+          { type: "toolCall", id: "c1", name: "read", arguments: { path: "a.ts" } },
+        ],
+      },
+    ]);
+    expect(calls.get("c1")).toEqual({ name: "read", arguments: { path: "a.ts" } });
+  });
+});
+
+describe("formatToolCall", () => {
+  it("renders read ranges, bash commands and generic args", () => {
+    expect(formatToolCall("read", { path: "src/foo.ts", offset: 1, limit: 400 })).toBe(
+      'read(path="src/foo.ts", lines 1-400)',
+    );
+    expect(formatToolCall("bash", { command: "npm test", timeout: 60 })).toBe('bash(command="npm test")');
+    expect(formatToolCall("kota_search", { query: "auth", scope: ["code"], limit: 20 })).toBe(
+      'kota_search(query="auth", scope=["code"], limit=20)',
+    );
+  });
+
+  it("caps long argument values", () => {
+    const out = formatToolCall("grep", { pattern: "x".repeat(500) });
+    expect(out.length).toBeLessThan(120);
+  });
+});
+
+describe("formatPrunedPlaceholder", () => {
+  it("includes the call, first lines and a blob pointer", () => {
+    const text = "\nline one\nline two\nline three\nline four";
+    const out = formatPrunedPlaceholder({
+      toolName: "read",
+      call: { name: "read", arguments: { path: "a.ts" } },
+      text,
+      blobId: "abc",
+    });
+    expect(out).toContain('(Pruned) read(path="a.ts") output');
+    expect(out).toContain("  line three");
+    expect(out).not.toContain("line four");
+    expect(out).toContain('kota_blob_read(blob_id="abc")');
+  });
+
+  it("shows a summary instead of the first lines when given one", () => {
+    const out = formatPrunedPlaceholder({ toolName: "bash", text: "noise\nFAIL a.test.ts", summary: "FAIL a.test.ts" });
+    expect(out).toContain("Summary:\n  FAIL a.test.ts");
+    expect(out).not.toContain("First lines:");
+  });
+
+  it("falls back to the tool name and a re-run hint", () => {
+    const out = formatPrunedPlaceholder({ toolName: "bash", text: "" });
+    expect(out).toContain("(Pruned) bash output (0 chars");
+    expect(out).toContain("re-running");
+    expect(previewLines("")).toEqual([]);
+  });
+});
+
+describe("formatImagePlaceholder", () => {
+  it("names the mime type, decoded size and source call", () => {
+    const data = "A".repeat(4096);
+    expect(formatImagePlaceholder({ type: "image", data, mimeType: "image/png" } as any, 'screenshot(url="x")')).toBe(
+      '(Pruned) image/png image (~3 KB) from screenshot(url="x").',
+    );
+    expect(formatImagePlaceholder({}, "browser")).toBe("(Pruned) image image (~0 KB) from browser.");
+  });
+});
@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import { assistantProse, condenseAssistantContent, condenseProse } from "../src/prune-assistant.js";
+
+const longText = [
+  "The parser drops trailing commas, so `src/parse.ts` rejects valid configs.",
+  "It only happens for nested arrays.",
+  "",
+  "```ts",
+  ...Array.from({ length: 80 }, (_, i) => `const line${i} = parse("./fixtures/case${i}.json");`),
+  "```",
+  "",
+  "I also looked at tests/parse.test.ts:40 and docs/config.md, e.g. the v1.2 notes.",
+  "Decision: strip trailing commas in the tokenizer rather than the grammar.",
+  "- I'll add a regression test for nested arrays.",
+].join("\n");
+
+describe("condenseProse", () => {
+  it("keeps the first paragraph, file paths and decisions, dropping code blocks", () => {
+    const out = condenseProse(longText, "text");
+    expect(out.split("\n")).toEqual([
+      expect.stringMatching(/^\(Pruned assistant text: \d+ chars, ~\d+ tokens\.\)$/),
+      "The parser drops trailing commas, so `src/parse.ts` rejects valid configs. It only happens for nested arrays.",
+      "Files: src/parse.ts, tests/parse.test.ts, docs/config.md",
+      "Decisions:",
+      "- Decision: strip trailing commas in the tokenizer rather than the grammar.",
+      "- I'll add a regression test for nested arrays.",
+    ]);
+    expect(out).not.toContain("fixtures");
+  });
+});
+
+describe("condenseAssistantContent", () => {
+  it("condenses long text and thinking but keeps toolCall blocks and short text", () => {
+    const toolCall = { type: "toolCall", id: "c1", name: "read", arguments: { path: "src/parse.ts" } };
+    const content = [
+      { type: "thinking", thinking: longText, thinkingSignature: "sig" },
+      { type: "text", text: "Reading the parser." },
+      toolCall,
+      { type: "text", text: longText, textSignature: "msg_1" },
+    ];
+
+    const out = condenseAssistantContent(content) as any[];
+    expect(out).toHaveLength(4);
+    expect(out[0]).toEqual({ type: "text", text: expect.stringContaining("(Pruned thinking:") });
+    expect(out[1]).toBe(content[1]);
+    expect(out[2]).toBe(toolCall);
+    expect(out[3]).toEqual({ type: "text", text: expect.stringContaining("(Pruned assistant text:") });
+  });
+
+  it("joins the prose of an assistant message", () => {
+    const m = { content: [{ type: "text", text: "a" }, { type: "toolCall" }, { type: "thinking", thinking: "b" }] };
+    expect(assistantProse(m)).toBe("a\n\nb");
+    expect(assistantProse({ content: "plain" })).toBe("");
+  });
+});
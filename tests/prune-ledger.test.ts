@@ -0,0 +1,92 @@
+import { describe, expect, it } from "vitest";
+import { formatPruneDryRun, formatPruneSettings, formatPruningReport, PruneLedger } from "../src/prune-ledger.js";
+import { planPrune, pruneContextMessages, type PruneOptions } from "../src/prune.js";
+
+const user = (t: string) => ({ role: "user", content: [{ type: "text", text: t }] });
+const call = (id: string, name: string, args: Record<string, unknown>) => ({
+  role: "assistant",
+  content: [{ type: "toolCall", id, name, arguments: args }],
+});
+const result = (id: string, name: string, text: string) => ({
+  role: "toolResult",
+  toolCallId: id,
+  toolName: name,
+  content: [{ type: "text", text }],
+});
+
+const messages = [
+  user("a"),
+  call("c1", "read", { path: "src/a.ts" }),
+  result("c1", "read", "x".repeat(3000)),
+  call("c2", "kota_search", { query: "foo" }),
+  result("c2", "kota_search", "hit"),
+  call("c3", "kota_search", { query: "foo" }),
+  result("c3", "kota_search", "hit"),
+  user("b"),
+];
+const opts: PruneOptions = { keepRecentTurns: 1, maxToolChars: 500, toolRules: { read: {} }, supersede: true };
+
+describe("PruneLedger", () => {
+  it("records each pruned result once with its reason, tier and savings", () => {
+    const ledger = new PruneLedger();
+    const plan = planPrune(messages, opts);
+    const pruned = pruneContextMessages(messages, opts, plan);
+
+    expect(ledger.record(plan, messages, pruned, 70, 1)).toBe(2);
+    expect(ledger.record(plan, messages, pruned, 70, 2)).toBe(0);
+
+    const [read, search] = ledger.recent(10);
+    expect(read).toMatchObject({ index: 2, label: 'read(path="src/a.ts")', reason: "size", tier: 70, at: 1 });
+    expect(read.savedChars).toBeGreaterThan(2500);
+    expect(search).toMatchObject({ index: 4, reason: "superseded", detail: "superseded by identical query at turn 1" });
+    expect(search.savedChars).toBe(0);
+    expect(ledger.totals).toEqual({ actions: 2, savedChars: read.savedChars, savedTokens: read.savedTokens });
+  });
+
+  it("keeps only the newest entries but counts all of them", () => {
+    const ledger = new PruneLedger(1);
+    const plan = planPrune(messages, opts);
+    ledger.record(plan, messages, pruneContextMessages(messages, opts, plan));
+
+    expect(ledger.recent(10).map((e) => e.index)).toEqual([4]);
+    expect(ledger.totals.actions).toBe(2);
+    expect(ledger.recent(0)).toEqual([]);
+  });
+});
+
+describe("pruning report", () => {
+  it("describes the effective settings and tier", () => {
+    const settings = { keepRecentTurns: 1, maxToolChars: 800, maxToolTokens: 200, tier: 70, extraTools: ["kota_deps"] };
+    expect(formatPruneSettings(settings, { adaptive: true, percent: 72.4 })).toBe(
+      "keepRecentTurns=1, maxToolChars=800, maxToolTokens=200; tier 70% (context 72%), extra tools: kota_deps",
+    );
+    expect(formatPruneSettings({ keepRecentTurns: 2, maxToolChars: 1200 }, { adaptive: true })).toContain(
+      "no tier (context usage unknown)",
+    );
+  });
+
+  it("lists recent actions, or says nothing was pruned", () => {
+    const ledger = new PruneLedger();
+    const settings = { keepRecentTurns: 1, maxToolChars: 500 };
+    expect(formatPruningReport(ledger, settings, { adaptive: false, limit: 5 })).toContain("No tool results pruned");
+
+    const plan = planPrune(messages, opts);
+    ledger.record(plan, messages, pruneContextMessages(messages, opts, plan));
+    const text = formatPruningReport(ledger, settings, { adaptive: false, limit: 1 });
+    expect(text).toContain("last 1:");
+    expect(text).toContain('#4 kota_search(query="foo"): 3 chars, saved 0 (~0 tokens) — superseded by identical');
+  });
+
+  it("marks dry-run results that have not been pruned yet", () => {
+    const ledger = new PruneLedger();
+    const settings = { keepRecentTurns: 1, maxToolChars: 500 };
+    const plan = planPrune(messages, opts);
+    ledger.record(plan.slice(0, 1), messages, pruneContextMessages(messages, opts, plan));
+
+    const text = formatPruneDryRun(plan, messages, ledger, settings, { adaptive: false });
+    expect(text).toContain("would prune 2 of 8 messages (3003 chars), 1 not pruned before:");
+    expect(text).toContain('#2 read(path="src/a.ts"): 3000 chars — over budget\n');
+    expect(text).toContain("[new]");
+    expect(formatPruneDryRun([], messages, ledger, settings, { adaptive: false })).toContain("Nothing to prune");
+  });
+});
@@ -0,0 +1,26 @@
+import { describe, expect, it } from "vitest";
+import { globToRegExp, resolvePruneRule } from "../src/prune-rules.js";
+
+describe("globToRegExp", () => {
+  it("supports * and ? and escapes everything else", () => {
+    expect(globToRegExp("mcp_*").test("mcp_github_search")).toBe(true);
+    expect(globToRegExp("mcp_*").test("xmcp_a")).toBe(false);
+    expect(globToRegExp("web?fetch").test("web_fetch")).toBe(true);
+    expect(globToRegExp("a.b").test("axb")).toBe(false);
+  });
+});
+
+describe("resolvePruneRule", () => {
+  const rules = { "kota_*": { maxToolChars: 800 }, "kota_impact": { never: true }, "*": { always: true } };
+
+  it("prefers an exact key, then the most specific glob", () => {
+    expect(resolvePruneRule(rules, "kota_impact")).toEqual({ never: true });
+    expect(resolvePruneRule(rules, "kota_deps")).toEqual({ maxToolChars: 800 });
+    expect(resolvePruneRule(rules, "grep")).toEqual({ always: true });
+  });
+
+  it("returns undefined without a match", () => {
+    expect(resolvePruneRule({ read: {} }, "bash")).toBeUndefined();
+    expect(resolvePruneRule(undefined, "read")).toBeUndefined();
+  });
+});
@@ -1,5 +1,14 @@
 import { describe, expect, it } from "vitest";
-import { computePruneSettings, pruneContextMessages } from "../src/prune.js";
+import {
+  computePruneSettings,
+  contextPercent,
+  planPrune,
+  protectedPinIndexes,
+  prunableIndexes,
+  pruneContextMessages,
+  summarizeToolOutput,
+  toolText,
+} from "../src/prune.js";
 
 const user = (t: string) => ({ role: "user", content: [{ type: "text", text: t }], timestamp: 1 });
 const tool = (name: string, text: string) => ({
@@ -122,8 +131,158 @@ describe("pruneContextMessages edge cases", () => {
       keepRecentTurns: 1,
       maxToolChars: 100,
       pruneToolNames: new Set(["read"]),
+      images: true,
     });
-    expect((pruned[1] as any).content[0].type).toBe("image");
+    expect((pruned[1] as any).content).toEqual([{ type: "text", text: "(Pruned) image image (~1 KB) from read." }]);
+  });
+
+  it("prunes results that fit the char budget but exceed the token budget", () => {
+    const code = "const a = f(b[0]);\n".repeat(20);
+    const messages = [user("A"), tool("read", code), user("B")];
+    const pruned = pruneContextMessages(messages as any, {
+      keepRecentTurns: 1,
+      maxToolChars: 10_000,
+      maxToolTokens: 50,
+      pruneToolNames: new Set(["read"]),
+    });
+    expect((pruned[1] as any).content[0].text).toContain("tokens)");
+    expect((pruned[1] as any).details.originalTokens).toBeGreaterThan(50);
+  });
+});
+
+describe("pruned placeholders", () => {
+  it("names the original tool call arguments", () => {
+    const messages = [
+      user("A"),
+      { role: "assistant", content: [{ type: "toolCall", id: "c1", name: "read", arguments: { path: "src/foo.ts" } }] },
+      { ...tool("read", "first\n" + "x".repeat(5000)), toolCallId: "c1", details: { blobId: "b1" } },
+      user("B"),
+    ];
+    const pruned = pruneContextMessages(messages as any, {
+      keepRecentTurns: 1,
+      maxToolChars: 100,
+      pruneToolNames: new Set(["read"]),
+    });
+    const text = (pruned[2] as any).content[0].text;
+    expect(text).toContain('(Pruned) read(path="src/foo.ts") output');
+    expect(text).toContain("  first");
+    expect(text).toContain('blob_id="b1"');
+  });
+});
+
+describe("prunableIndexes", () => {
+  it("lists the results pruning would replace and uses blobIds in placeholders", () => {
+    const messages = [user("A"), { ...tool("bash", "x".repeat(5000)), toolCallId: "c1" }, user("B")];
+    const opts = { keepRecentTurns: 1, maxToolChars: 100, pruneToolNames: new Set(["bash"]) };
+    expect(prunableIndexes(messages, opts)).toEqual([1]);
+
+    const pruned = pruneContextMessages(messages as any, { ...opts, blobIds: new Map([["c1", "blob-9"]]) });
+    expect((pruned[1] as any).content[0].text).toContain('kota_blob_read(blob_id="blob-9")');
+    expect((pruned[1] as any).details.blobId).toBe("blob-9");
+  });
+});
+
+describe("supersession pruning", () => {
+  it("prunes a re-read file even inside keepRecentTurns, unless pinned", () => {
+    const read = (id: string) => [
+      { role: "assistant", content: [{ type: "toolCall", id, name: "read", arguments: { path: "a.ts" } }] },
+      { ...tool("read", "short"), toolCallId: id },
+    ];
+    const messages = [user("A"), ...read("r1"), user("B"), ...read("r2")];
+    const opts = { keepRecentTurns: 5, maxToolChars: 1000, pruneToolNames: new Set(["read"]), supersede: true };
+
+    const pruned = pruneContextMessages(messages as any, opts);
+    expect((pruned[2] as any).content[0].text).toContain("superseded by later read at turn 2");
+    expect((pruned[2] as any).details.superseded).toEqual({ by: "read", turn: 2 });
+    expect((pruned[5] as any).content[0].text).toBe("short");
+
+    const pinned = pruneContextMessages(messages as any, { ...opts, pinnedToolCallIds: new Set(["r1"]) });
+    expect((pinned[2] as any).content[0].text).toBe("short");
+    expect(pruneContextMessages(messages as any, { ...opts, supersede: false })).toEqual(messages);
+  });
+});
+
+describe("per-tool prune rules", () => {
+  const base = { keepRecentTurns: 1, maxToolChars: 100 };
+
+  it("prunes tools matched by a glob, with their own budget", () => {
+    const messages = [user("A"), tool("mcp_fetch", "x".repeat(500)), tool("mcp_list", "x".repeat(50)), user("B")];
+    const pruned = pruneContextMessages(messages as any, { ...base, toolRules: { "mcp_*": { maxToolChars: 200 } } });
+    expect((pruned[1] as any).content[0].text).toContain("(Pruned) mcp_fetch");
+    expect((pruned[2] as any).content[0].text).toBe("x".repeat(50));
+  });
+
+  it("honours never, always and keepRecentTurns overrides", () => {
+    const messages = [
+      user("A"),
+      tool("read", "x".repeat(500)),
+      tool("grep", "hit"),
+      user("B"),
+      tool("bash", "y".repeat(500)),
+    ];
+    const opts = {
+      ...base,
+      pruneToolNames: new Set(["read"]),
+      toolRules: { read: { never: true }, grep: { always: true }, bash: { keepRecentTurns: 0 } },
+    };
+    const pruned = pruneContextMessages(messages as any, opts);
+    expect((pruned[1] as any).content[0].text).toBe("x".repeat(500));
+    expect((pruned[2] as any).content[0].text).toContain("(Pruned) grep");
+    expect((pruned[4] as any).content[0].text).toContain("(Pruned) bash");
+    expect(planPrune(messages, opts).map((d) => [d.index, d.reason, d.originalChars])).toEqual([
+      [2, "always", 3],
+      [4, "size", 500],
+    ]);
+  });
+
+  it("scales per-tool budgets by the adaptive tightening factor", () => {
+    const messages = [user("A"), tool("mcp_fetch", "x".repeat(150)), user("B")];
+    const opts = { ...base, toolRules: { "mcp_*": { maxToolChars: 200 } } };
+    expect(planPrune(messages, opts)).toEqual([]);
+    expect(planPrune(messages, { ...opts, ruleBudgetScale: 0.5 }).map((d) => d.index)).toEqual([1]);
+  });
+});
+
+describe("pinned tool results", () => {
+  const pinnedTool = (id: string, text: string) => ({ ...tool("read", text), toolCallId: id });
+
+  it("never prunes results with details.pinned, whatever the tool", () => {
+    const messages = [user("A"), { ...tool("kota_impact", "x".repeat(5000)), details: { pinned: true } }, user("B")];
+    const pruned = pruneContextMessages(messages as any, {
+      keepRecentTurns: 1,
+      maxToolChars: 100,
+      pruneToolNames: new Set(["kota_impact"]),
+    });
+    expect((pruned[1] as any).content[0].text).toBe("x".repeat(5000));
+  });
+
+  it("keeps results pinned by tool call id", () => {
+    const messages = [user("A"), pinnedTool("c1", "x".repeat(5000)), pinnedTool("c2", "y".repeat(5000)), user("B")];
+    const pruned = pruneContextMessages(messages as any, {
+      keepRecentTurns: 1,
+      maxToolChars: 100,
+      pruneToolNames: new Set(["read"]),
+      pinnedToolCallIds: new Set(["c1"]),
+    });
+    expect((pruned[1] as any).content[0].text).toBe("x".repeat(5000));
+    expect((pruned[2] as any).content[0].text).toContain("(Pruned)");
+  });
+
+  it("lets the oldest pins fall out once the pin budget is exceeded", () => {
+    const text = "word ".repeat(400);
+    const messages = [user("A"), pinnedTool("old", text), pinnedTool("new", text), user("B")];
+    const pinned = protectedPinIndexes(messages, new Set(["old", "new"]), 600);
+    expect([...pinned]).toEqual([2]);
+
+    const pruned = pruneContextMessages(messages as any, {
+      keepRecentTurns: 1,
+      maxToolChars: 100,
+      pruneToolNames: new Set(["read"]),
+      pinnedToolCallIds: new Set(["old", "new"]),
+      pinBudgetTokens: 600,
+    });
+    expect((pruned[1] as any).content[0].text).toContain("(Pruned)");
+    expect((pruned[2] as any).content[0].text).toBe(text);
   });
 });
 
@@ -157,4 +316,277 @@ describe("computePruneSettings", () => {
     const result = computePruneSettings(base, 200_000);
     expect(result.maxToolChars).toBe(400);
   });
+
+  it("scales maxToolTokens with a minimum of 100 when present", () => {
+    expect(computePruneSettings({ keepRecentTurns: 2, maxToolChars: 1200, maxToolTokens: 300 }, 120_000)).toEqual({
+      keepRecentTurns: 1,
+      maxToolChars: 792,
+      maxToolTokens: 198,
+    });
+    const clamped = computePruneSettings({ keepRecentTurns: 2, maxToolChars: 1200, maxToolTokens: 120 }, 200_000);
+    expect(clamped.maxToolTokens).toBe(100);
+  });
+});
+
+describe("tiered adaptive pruning", () => {
+  const base = { keepRecentTurns: 3, maxToolChars: 1200, maxToolTokens: 300 };
+  const tiers = [
+    { atPercent: 50, maxToolChars: 1000 },
+    { atPercent: 85, keepRecentTurns: 1, maxToolChars: 400, maxToolTokens: 100, tools: ["kota_*"] },
+  ];
+
+  it("applies the highest tier reached and reports it", () => {
+    expect(computePruneSettings(base, 10_000, { percent: 40, tiers })).toEqual(base);
+    expect(computePruneSettings(base, 10_000, { percent: 60, tiers })).toEqual({
+      ...base,
+      maxToolChars: 1000,
+      tier: 50,
+    });
+    expect(computePruneSettings(base, 10_000, { percent: 90, tiers })).toEqual({
+      keepRecentTurns: 1,
+      maxToolChars: 400,
+      maxToolTokens: 100,
+      tier: 85,
+      extraTools: ["kota_*"],
+    });
+  });
+
+  it("never loosens the base settings", () => {
+    const tight = { keepRecentTurns: 1, maxToolChars: 300 };
+    const loose = [{ atPercent: 50, keepRecentTurns: 4, maxToolChars: 900 }];
+    const res = computePruneSettings(tight, 0, { percent: 99, tiers: loose });
+    expect(res).toEqual({ keepRecentTurns: 1, maxToolChars: 300, tier: 50 });
+  });
+
+  it("falls back to the 120k step without a known window", () => {
+    expect(computePruneSettings(base, 120_000, { tiers }).maxToolChars).toBe(792);
+  });
+
+  it("computes the percentage from tokens and window when percent is missing", () => {
+    expect(contextPercent({ tokens: 16_000, contextWindow: 32_000 })).toBe(50);
+    expect(contextPercent({ percent: 12.5 })).toBe(12.5);
+    expect(contextPercent({ tokens: 16_000 })).toBeUndefined();
+  });
+
+  it("prunes the tier's extra tools unless a rule says never", () => {
+    const messages = [
+      user("A"),
+      tool("kota_deps", "x".repeat(500)),
+      tool("kota_impact", "y".repeat(500)),
+      user("B"),
+    ];
+    const pruned = pruneContextMessages(messages as any, {
+      keepRecentTurns: 1,
+      maxToolChars: 100,
+      extraTools: ["kota_*"],
+      toolRules: { kota_impact: { never: true } },
+    });
+    expect((pruned[1] as any).content[0].text).toContain("(Pruned) kota_deps");
+    expect((pruned[2] as any).content[0].text).toBe("y".repeat(500));
+  });
+});
+
+describe("summarizeToolOutput", () => {
+  const vitestRun = [
+    "\x1b[32m ✓\x1b[39m tests/a.test.ts (3 tests) 5ms",
+    ...Array.from({ length: 200 }, (_, i) => `   ✓ passes case ${i}`),
+    " × parses dates 4ms",
+    " FAIL  tests/b.test.ts > parser > parses dates",
+    "AssertionError: expected 1 to be 2",
+    " ❯ tests/b.test.ts:12:5",
+    " Test Files  1 failed | 1 passed (2)",
+    "      Tests  1 failed | 203 passed (204)",
+  ].join("\n");
+
+  it("keeps failures and totals from a test run", () => {
+    const input = { toolName: "bash", args: { command: "npx vitest run" }, text: vitestRun };
+    expect(summarizeToolOutput(input, 600)?.split("\n")).toEqual([
+      "× parses dates 4ms",
+      "FAIL  tests/b.test.ts > parser > parses dates",
+      "AssertionError: expected 1 to be 2",
+      "Test Files  1 failed | 1 passed (2)",
+      "Tests  1 failed | 203 passed (204)",
+    ]);
+  });
+
+  it("keeps tsc error codes and locations", () => {
+    const text = [
+      "src/a.ts(3,5): error TS2322: Type 'string' is not assignable to type 'number'.",
+      "src/b.ts:10:1 - error TS2304: Cannot find name 'foo'.",
+      "",
+      "10 foo();",
+      "   ~~~",
+      "Found 2 errors in 2 files.",
+    ].join("\n");
+    expect(summarizeToolOutput({ toolName: "bash", args: { command: "npx tsc --noEmit" }, text }, 600)).toBe(
+      [
+        "src/a.ts(3,5): TS2322 Type 'string' is not assignable to type 'number'.",
+        "src/b.ts(10,1): TS2304 Cannot find name 'foo'.",
+        "Found 2 errors in 2 files.",
+      ].join("\n"),
+    );
+  });
+
+  it("keeps exported signatures from a read", () => {
+    const text = [
+      'import x from "x";',
+      "export interface Options {",
+      "  a: number;",
+      "}",
+      "export function run(",
+      "  opts: Options,",
+      "  cb: () => void,",
+      "): Promise<void> {",
+      "  return x(opts);",
+      "}",
+      "const internal = 1;",
+      "export const VERSION = 3;",
+    ].join("\n");
+    expect(summarizeToolOutput({ toolName: "read", args: { path: "a.ts" }, text }, 600)).toBe(
+      [
+        "export interface Options",
+        "export function run(opts: Options, cb: () => void): Promise<void>",
+        "export const VERSION = 3;",
+      ].join("\n"),
+    );
+  });
+
+  it("keeps matched paths from kota_search, preferring parsed details", () => {
+    const text = "3 results\nsrc/a.ts:12  const a = 1\nsrc/b.ts  b\nsrc/a.ts:40  again";
+    expect(summarizeToolOutput({ toolName: "kota_search", text }, 600)).toBe("src/a.ts\nsrc/b.ts");
+
+    const details = { data: { kind: "search", files: [{ path: "lib/x.ts" }] } };
+    expect(summarizeToolOutput({ toolName: "kota_search", text, details }, 600)).toBe("lib/x.ts");
+  });
+
+  it("caps the summary and returns undefined when no strategy applies", () => {
+    const text = Array.from({ length: 50 }, (_, i) => `FAILED tests/test_x.py::test_${i}`).join("\n");
+    const summary = summarizeToolOutput({ toolName: "bash", args: { command: "pytest" }, text }, 100);
+    expect(summary?.length).toBeLessThanOrEqual(120);
+    expect(summary).toMatch(/… \d+ more lines$/);
+
+    expect(summarizeToolOutput({ toolName: "bash", args: { command: "ls" }, text: "a\nb" }, 600)).toBeUndefined();
+    expect(summarizeToolOutput({ toolName: "grep", text }, 600)).toBeUndefined();
+    expect(summarizeToolOutput({ toolName: "bash", text }, 0)).toBeUndefined();
+  });
+
+  it("replaces the preview in pruned placeholders", () => {
+    const messages = [
+      user("A"),
+      {
+        role: "assistant",
+        content: [{ type: "toolCall", id: "t1", name: "bash", arguments: { command: "npm test" } }],
+      },
+      { ...tool("bash", vitestRun), toolCallId: "t1" },
+      user("B"),
+    ];
+    const opts = { keepRecentTurns: 1, maxToolChars: 100, pruneToolNames: new Set(["bash"]) };
+
+    const summarized = (pruneContextMessages(messages, { ...opts, summaryMaxChars: 600 })[2] as any).content[0].text;
+    expect(summarized).toContain("Summary:\n  × parses dates 4ms");
+    expect(summarized).not.toContain("First lines:");
+
+    const plain = (pruneContextMessages(messages, opts)[2] as any).content[0].text;
+    expect(plain).toContain("First lines:");
+  });
+});
+
+describe("assistant pruning", () => {
+  const prose = "Short intro.\n\n```ts\n" + "const x = 1;\n".repeat(300) + "```";
+  const assistant = (id: string) => ({
+    role: "assistant",
+    content: [
+      { type: "thinking", thinking: prose },
+      { type: "text", text: prose },
+      { type: "toolCall", id, name: "bash", arguments: { command: "ls" } },
+    ],
+  });
+  const messages = [
+    user("A"),
+    assistant("c1"),
+    { ...tool("bash", "ok"), toolCallId: "c1" },
+    user("B"),
+    assistant("c2"),
+  ];
+
+  it("condenses old assistant prose over budget, keeping tool calls paired", () => {
+    const opts = { keepRecentTurns: 1, maxToolChars: 100, assistant: { maxChars: 500 } };
+    expect(planPrune(messages, opts)).toEqual([
+      {
+        index: 1,
+        toolName: "assistant",
+        reason: "size",
+        originalChars: prose.length * 2 + 2,
+        originalTokens: expect.any(Number),
+      },
+    ]);
+
+    const pruned = pruneContextMessages(messages, opts) as any[];
+    expect(pruned[1].content.map((b: any) => b.type)).toEqual(["text", "text", "toolCall"]);
+    expect(pruned[1].content[0].text).toContain("(Pruned thinking:");
+    expect(pruned[1].content[2]).toBe(messages[1].content[2]);
+    expect(pruned[2]).toBe(messages[2]);
+    expect(pruned[4]).toBe(messages[4]);
+  });
+
+  it("leaves assistant messages alone unless enabled", () => {
+    expect(pruneContextMessages(messages, { keepRecentTurns: 1, maxToolChars: 100 })).toEqual(messages);
+  });
+});
+
+describe("multi-block tool results", () => {
+  const image = { type: "image", data: "A".repeat(8000), mimeType: "image/png" };
+  const multi = (name: string, id: string, ...content: unknown[]) => ({ ...tool(name, ""), toolCallId: id, content });
+
+  it("measures and prunes all text blocks, not just the first", () => {
+    const m = multi("read", "r1", { type: "text", text: "short" }, { type: "text", text: "x".repeat(500) });
+    expect(toolText(m)).toBe(`short\n${"x".repeat(500)}`);
+
+    const pruned = pruneContextMessages([user("A"), m, user("B")], {
+      keepRecentTurns: 1,
+      maxToolChars: 100,
+      pruneToolNames: new Set(["read"]),
+    }) as any[];
+    expect(pruned[1].content).toHaveLength(1);
+    expect(pruned[1].details.originalChars).toBe(506);
+  });
+
+  it("replaces old images from any tool, keeping the text", () => {
+    const shot = multi("screenshot", "s1", { type: "text", text: "Captured." }, image);
+    const messages = [user("A"), shot, user("B"), multi("screenshot", "s2", image)];
+    const opts = { keepRecentTurns: 1, maxToolChars: 100, images: true };
+
+    expect(planPrune(messages, opts).map((d) => [d.index, d.reason, d.originalChars, d.originalTokens])).toEqual([
+      [1, "image", 9, 3 + 1500],
+    ]);
+    const pruned = pruneContextMessages(messages, opts) as any[];
+    expect(pruned[1].content).toEqual([
+      { type: "text", text: "Captured." },
+      { type: "text", text: "(Pruned) image/png image (~6 KB) from screenshot." },
+    ]);
+    expect(pruned[1].details.prunedImages).toBe(1);
+    expect(pruned[3]).toBe(messages[3]);
+  });
+
+  it("keeps a stand-in for each image when a whole result is pruned", () => {
+    const m = multi("bash", "b1", { type: "text", text: "y".repeat(500) }, image, image);
+    const pruned = pruneContextMessages([user("A"), m, user("B")], {
+      keepRecentTurns: 1,
+      maxToolChars: 100,
+      pruneToolNames: new Set(["bash"]),
+    }) as any[];
+    expect(pruned[1].content.map((b: any) => b.text.slice(0, 17))).toEqual([
+      "(Pruned) bash out",
+      "(Pruned) image/pn",
+      "(Pruned) image/pn",
+    ]);
+    expect(pruned[1].details).toMatchObject({ pruned: true, prunedImages: 2 });
+  });
+
+  it("leaves images alone for tools marked never, or when images is off", () => {
+    const messages = [user("A"), multi("screenshot", "s1", image), user("B")];
+    const opts = { keepRecentTurns: 1, maxToolChars: 100, toolRules: { screenshot: { never: true } }, images: true };
+    expect(planPrune(messages, opts)).toEqual([]);
+    expect(planPrune(messages, { keepRecentTurns: 1, maxToolChars: 100 })).toEqual([]);
+  });
 });
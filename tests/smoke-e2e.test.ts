@@ -68,6 +68,7 @@ async function setupE2eConfig() {
       {
         kota: { confirmIndex: true },
         prune: { enabled: true, maxToolChars: 50, keepRecentTurns: 2, adaptive: false },
+        budgets: { kota_search: { maxChars: 50 } },
         blobs: { enabled: true, dir: blobDir },
       },
       null,
@@ -120,6 +121,7 @@ describe("e2e smoke (wiring)", () => {
 
     expect([...api.tools.keys()].sort()).toEqual(
       [
+        "kota_blob_read",
         "kota_deps",
         "kota_impact",
         "kota_index",
@@ -60,6 +60,13 @@ describe("formatStatusLine", () => {
     expect(line).toContain("starting");
   });
 
+  it("shows an open or half-open restart circuit", () => {
+    const base = { kotaStatus: "error" as const, repoRoot: "/r", indexed: false, lastError: null };
+    expect(formatStatusLine({ ...base, circuit: "open" }, noTheme)).toContain("circuit open");
+    expect(formatStatusLine({ ...base, circuit: "half-open" }, noTheme)).toContain("circuit half-open");
+    expect(formatStatusLine({ ...base, circuit: "closed" }, noTheme)).not.toContain("circuit");
+  });
+
   it("abbreviates long repo paths", () => {
     const line = formatStatusLine(
       { kotaStatus: "running", repoRoot: "/very/long/path/to/my-project", indexed: true, lastError: null },
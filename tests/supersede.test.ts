@@ -0,0 +1,94 @@
+import { describe, expect, it } from "vitest";
+import { collectToolCalls } from "../src/placeholder.js";
+import { findSupersededResults, formatSupersession } from "../src/supersede.js";
+
+const user = (t: string) => ({ role: "user", content: t });
+const call = (id: string, name: string, args: object) => ({
+  role: "assistant",
+  content: [{ type: "toolCall", id, name, arguments: args }],
+});
+const result = (id: string, name: string, extra: object = {}) => ({
+  role: "toolResult",
+  toolCallId: id,
+  toolName: name,
+  content: [{ type: "text", text: "..." }],
+  ...extra,
+});
+
+function superseded(messages: unknown[], root?: string) {
+  return findSupersededResults(messages, collectToolCalls(messages), root);
+}
+
+describe("findSupersededResults", () => {
+  it("marks an older read of a path read again later", () => {
+    const messages = [
+      user("1"),
+      call("r1", "read", { path: "src/a.ts" }),
+      result("r1", "read"),
+      user("2"),
+      call("r2", "read", { path: "src/a.ts" }),
+      result("r2", "read"),
+    ];
+    expect(superseded(messages)).toEqual(new Map([[2, { by: "read", turn: 2 }]]));
+  });
+
+  it("marks reads of a file edited later, unless the edit failed", () => {
+    const base = [user("1"), call("r1", "read", { path: "src/a.ts" }), result("r1", "read"), user("2")];
+    const edited = [...base, call("e1", "edit", { path: "src/a.ts" }), result("e1", "edit")];
+    expect(superseded(edited).get(2)).toEqual({ by: "edit", turn: 2 });
+
+    const failed = [...base, call("e1", "edit", { path: "src/a.ts" }), result("e1", "edit", { isError: true })];
+    expect(superseded(failed).size).toBe(0);
+  });
+
+  it("matches relative, ./-prefixed and absolute spellings of the same path", () => {
+    const messages = [
+      user("1"),
+      call("r1", "read", { path: "./src/a.ts" }),
+      result("r1", "read"),
+      call("r2", "read", { path: "src/a.ts" }),
+      result("r2", "read"),
+      user("2"),
+      call("e1", "edit", { file_path: "/repo/src/a.ts" }),
+      result("e1", "edit"),
+    ];
+    expect(superseded(messages, "/repo")).toEqual(
+      new Map([
+        [2, { by: "read", turn: 1 }],
+        [4, { by: "edit", turn: 2 }],
+      ]),
+    );
+    expect(superseded(messages).get(4)).toBeUndefined();
+  });
+
+  it("only lets a ranged read supersede the same range", () => {
+    const messages = [
+      user("1"),
+      call("r1", "read", { path: "a.ts", offset: 1, limit: 50 }),
+      result("r1", "read"),
+      call("r2", "read", { path: "a.ts", offset: 51, limit: 50 }),
+      result("r2", "read"),
+      call("r3", "read", { path: "a.ts" }),
+      result("r3", "read"),
+    ];
+    expect([...superseded(messages).keys()].sort()).toEqual([2, 4]);
+
+    const disjoint = messages.slice(0, 5);
+    expect(superseded(disjoint).size).toBe(0);
+  });
+
+  it("collapses repeated kota_* queries with identical arguments", () => {
+    const messages = [
+      user("1"),
+      call("k1", "kota_search", { query: "x", limit: 5 }),
+      result("k1", "kota_search"),
+      call("k2", "kota_search", { limit: 5, query: "x" }),
+      result("k2", "kota_search"),
+      call("k3", "kota_search", { query: "y" }),
+      result("k3", "kota_search"),
+    ];
+    const found = superseded(messages);
+    expect([...found.keys()]).toEqual([2]);
+    expect(formatSupersession(found.get(2)!)).toBe("superseded by identical query at turn 1");
+  });
+});
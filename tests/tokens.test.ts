@@ -0,0 +1,47 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { budgetChars, detectContentKind, estimateTokens, fitsBudget, setTokenizer } from "../src/tokens.js";
+
+describe("detectContentKind", () => {
+  it("classifies JSON, code and prose", () => {
+    expect(detectContentKind('{"a": [1, 2]}')).toBe("json");
+    expect(detectContentKind("const x = foo(bar[0]);\nif (x) { return; }")).toBe("code");
+    expect(detectContentKind("The quick brown fox jumps over the lazy dog")).toBe("prose");
+  });
+});
+
+describe("estimateTokens", () => {
+  afterEach(() => setTokenizer(null));
+
+  it("returns 0 for empty text", () => {
+    expect(estimateTokens("")).toBe(0);
+  });
+
+  it("counts denser content as more tokens per char", () => {
+    const prose = "word ".repeat(80);
+    const json = JSON.stringify(Array.from({ length: 40 }, (_, i) => ({ i })));
+    expect(estimateTokens(prose) / prose.length).toBeLessThan(estimateTokens(json) / json.length);
+  });
+
+  it("counts CJK characters as one token each", () => {
+    expect(estimateTokens("漢字漢字", "prose")).toBe(4);
+  });
+
+  it("uses a plugged-in tokenizer when set", () => {
+    setTokenizer((text) => text.split(" ").length);
+    expect(estimateTokens("a b c")).toBe(3);
+  });
+});
+
+describe("budgetChars", () => {
+  it("is unbounded without a budget", () => {
+    expect(budgetChars("abc", {})).toBe(Infinity);
+  });
+
+  it("takes the tighter of chars and tokens", () => {
+    const text = "word ".repeat(200); // ~250 tokens
+    expect(budgetChars(text, { maxChars: 100, maxTokens: 1000 })).toBe(100);
+    expect(budgetChars(text, { maxChars: 10_000, maxTokens: 50 })).toBe(200);
+    expect(fitsBudget(text, { maxTokens: 500 })).toBe(true);
+    expect(fitsBudget(text, { maxTokens: 50 })).toBe(false);
+  });
+});
@@ -6,4 +6,8 @@ describe("shouldTruncateToolResult", () => {
     expect(shouldTruncateToolResult("kota_search")).toBe(true);
     expect(shouldTruncateToolResult("read")).toBe(false);
   });
+
+  it("never re-truncates kota_blob_read pages", () => {
+    expect(shouldTruncateToolResult("kota_blob_read")).toBe(false);
+  });
 });
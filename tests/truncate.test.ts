@@ -0,0 +1,82 @@
+import { describe, expect, it } from "vitest";
+import { formatOmittedFooter, truncateOutput } from "../src/truncate.js";
+
+const lines = (n: number, prefix = "src/file") => Array.from({ length: n }, (_, i) => `${prefix}${i}.ts`).join("\n");
+
+describe("truncateOutput", () => {
+  it("returns short input unchanged", () => {
+    expect(truncateOutput("a\nb", 100)).toEqual({ text: "a\nb", truncated: false, omitted: 0, total: 2 });
+  });
+
+  it("keeps whole lines and reports how many were dropped", () => {
+    const input = lines(50);
+    const res = truncateOutput(input, 200, { unit: "results" });
+
+    expect(res.text.length).toBeLessThanOrEqual(200);
+    const kept = res.text.split("\n");
+    const footer = kept.pop();
+    for (const line of kept) expect(line).toMatch(/^src\/file\d+\.ts$/);
+    expect(footer).toBe(formatOmittedFooter(res.omitted, "results"));
+    expect(res.omitted).toBe(50 - kept.length);
+    expect(res.total).toBe(50);
+  });
+
+  it("names the blob in the footer", () => {
+    const res = truncateOutput(lines(50), 300, { blobId: "abc123" });
+    expect(res.text).toMatch(/… \d+ more lines omitted \(blobId abc123\)$/);
+  });
+
+  it("keeps head and tail with the marker in between", () => {
+    const res = truncateOutput(lines(100), 400, { tailRatio: 0.3 });
+    const kept = res.text.split("\n");
+
+    expect(kept[0]).toBe("src/file0.ts");
+    expect(kept[kept.length - 1]).toBe("src/file99.ts");
+    expect(res.text).toContain(`… ${res.omitted} more lines omitted`);
+    expect(res.text.length).toBeLessThanOrEqual(400);
+  });
+
+  it("drops whole blank-line separated records", () => {
+    const records = Array.from({ length: 20 }, (_, i) => `src/a${i}.ts:1\n  const a${i} = ${i};`).join("\n\n");
+    const res = truncateOutput(records, 150, { unit: "results" });
+
+    const kept = res.text.split("\n\n");
+    expect(kept.pop()).toBe(`… ${res.omitted} more results omitted`);
+    for (const rec of kept) expect(rec).toMatch(/^src\/a\d+\.ts:1\n {2}const a\d+ = \d+;$/);
+  });
+
+  it("cuts by line when whole blocks would keep only a short header", () => {
+    const input = `3 results\n\n${lines(100)}`;
+    const res = truncateOutput(input, 400, { unit: "results" });
+
+    expect(res.text.startsWith("3 results\n\nsrc/file0.ts\nsrc/file1.ts")).toBe(true);
+    expect(res.text.length).toBeGreaterThan(300);
+    expect(res.text.length).toBeLessThanOrEqual(400);
+  });
+
+  it("counts lines, not results, when cutting through multi-line records", () => {
+    const input = [0, 1, 2].map((r) => `src/r${r}.ts\n${lines(100)}`).join("\n\n");
+    const res = truncateOutput(input, 1000, { unit: "results" });
+
+    expect(res.text).toMatch(/… \d+ more lines omitted$/);
+    expect(res.omitted).toBe(input.split("\n").length - (res.text.split("\n").length - 1));
+  });
+
+  it("keeps JSON valid by dropping trailing array items", () => {
+    const payload = { query: "auth", results: Array.from({ length: 30 }, (_, i) => ({ path: `src/f${i}.ts`, line: i })) };
+    const res = truncateOutput(JSON.stringify(payload, null, 2), 600);
+
+    const [json, footer] = [res.text.slice(0, res.text.lastIndexOf("\n")), res.text.slice(res.text.lastIndexOf("\n") + 1)];
+    const parsed = JSON.parse(json);
+    expect(parsed.query).toBe("auth");
+    expect(parsed.results.length).toBe(30 - res.omitted);
+    expect(footer).toBe(`… ${res.omitted} more items omitted`);
+    expect(res.text.length).toBeLessThanOrEqual(600);
+  });
+
+  it("falls back to a character cut for a single oversized line", () => {
+    const res = truncateOutput("x".repeat(100), 10);
+    expect(res.text).toBe("xxxxxxxxx…");
+    expect(res.truncated).toBe(true);
+  });
+});